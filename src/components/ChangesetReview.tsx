@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X, Pencil, Loader2, FileCode, FilePlus, FileInput, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { SplitDiff } from "@/components/DiffView";
+import { diffLines, collapseContext } from "@/lib/diff";
+import type { FileAction } from "@/lib/fileChanges";
+
+export interface ChangesetFile {
+  path: string;
+  action: FileAction;
+  previous_path?: string | null;
+  original: string | null;
+  // null for deletes and for renames that keep the content
+  content: string | null;
+  base_sha: string | null;
+}
+
+const ACTION_ICONS = { create: FilePlus, update: FileCode, delete: Trash2, rename: FileInput };
+
+const STATUS_LABELS: Record<string, string> = { applying: "aplicando...", applied: "aplicado", discarded: "descartado" };
+
+interface Changeset {
+  id: string;
+  status: string;
+  commit_message: string;
+  changes: ChangesetFile[];
+}
+
+interface ChangesetReviewProps {
+  changesetId: string;
+  onApply: (changesetId: string) => Promise<boolean>;
+}
+
+const ChangesetReview = ({ changesetId, onApply }: ChangesetReviewProps) => {
+  const [changeset, setChangeset] = useState<Changeset | null>(null);
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const loadChangeset = useCallback(async () => {
+    const { data } = await supabase
+      .from("pending_changesets")
+      .select("id, status, commit_message, changes")
+      .eq("id", changesetId)
+      .maybeSingle();
+    if (data) setChangeset({ ...data, changes: data.changes as unknown as ChangesetFile[] });
+  }, [changesetId]);
+
+  useEffect(() => {
+    loadChangeset();
+  }, [loadChangeset]);
+
+  const apply = async () => {
+    setBusy(true);
+    try {
+      if (await onApply(changesetId)) await loadChangeset();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const discard = async () => {
+    setBusy(true);
+    const { error } = await supabase
+      .from("pending_changesets")
+      .update({ status: "discarded" })
+      .eq("id", changesetId)
+      .eq("status", "pending");
+    setBusy(false);
+    if (error) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+      return;
+    }
+    loadChangeset();
+  };
+
+  const saveEdit = async () => {
+    if (!changeset || !editingPath) return;
+    const changes = changeset.changes.map((c) => (c.path === editingPath ? { ...c, content: draft } : c));
+    setBusy(true);
+    const { error } = await supabase
+      .from("pending_changesets")
+      .update({ changes: changes as unknown as Json })
+      .eq("id", changesetId)
+      .eq("status", "pending");
+    setBusy(false);
+    if (error) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+      return;
+    }
+    setChangeset({ ...changeset, changes });
+    setEditingPath(null);
+  };
+
+  if (!changeset) {
+    return (
+      <div className="mt-2 pt-2 border-t border-border flex items-center gap-2 text-xs text-muted-foreground font-mono">
+        <Loader2 className="h-3 w-3 animate-spin" /> Carregando mudanças...
+      </div>
+    );
+  }
+
+  const isPending = changeset.status === "pending";
+
+  return (
+    <div className="mt-2 pt-2 border-t border-border space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground font-mono truncate">{changeset.commit_message}</p>
+        {!isPending && (
+          <span className={`text-xs font-mono ${changeset.status === "discarded" ? "text-destructive/70" : "text-primary"}`}>
+            {STATUS_LABELS[changeset.status] ?? changeset.status}
+          </span>
+        )}
+      </div>
+
+      {changeset.changes.map((file) => {
+        const Icon = ACTION_ICONS[file.action] || FileCode;
+        return (
+        <div key={file.path} className="border border-border rounded">
+          <div className="flex items-center justify-between px-2 py-1 bg-muted/40 border-b border-border">
+            <span
+              className={`inline-flex items-center gap-1 text-xs font-mono truncate ${
+                file.action === "delete" ? "text-destructive line-through" : "text-primary"
+              }`}
+            >
+              <Icon className="h-3 w-3" />
+              {file.previous_path ? `${file.previous_path} → ${file.path}` : file.path}
+            </span>
+            {isPending && file.content !== null && editingPath !== file.path && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditingPath(file.path);
+                  setDraft(file.content ?? "");
+                }}
+                disabled={busy}
+                className="h-6 px-2 text-xs font-mono"
+              >
+                <Pencil className="h-3 w-3 mr-1" /> Editar
+              </Button>
+            )}
+          </div>
+          {editingPath === file.path ? (
+            <div className="p-2 space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="font-mono text-xs min-h-[240px] bg-muted"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditingPath(null)} className="text-xs font-mono">
+                  Cancelar
+                </Button>
+                <Button size="sm" onClick={saveEdit} disabled={busy} className="text-xs font-mono">
+                  Salvar
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <SplitDiff items={collapseContext(diffLines(file.original ?? "", file.content ?? (file.action === "rename" ? file.original ?? "" : "")))} path={file.path} />
+          )}
+        </div>
+        );
+      })}
+
+      {isPending && (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={discard}
+            disabled={busy}
+            className="text-xs font-mono border-destructive/30 text-destructive hover:bg-destructive/10 hover:text-destructive"
+          >
+            <X className="h-3 w-3 mr-1" /> Descartar
+          </Button>
+          <Button size="sm" onClick={apply} disabled={busy || editingPath !== null} className="text-xs font-mono">
+            {busy ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <Check className="h-3 w-3 mr-1" />}
+            Aplicar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangesetReview;
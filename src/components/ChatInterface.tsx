@@ -1,13 +1,28 @@
 import { useState, useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   Send, GitBranch, GitCommit, Unplug, Loader2, Bot, User,
-  FileCode, Undo2, History, X, Clock, ChevronUp,
+  FileCode, Undo2, History, X, Clock, ChevronUp, GitPullRequest, Eye, Wrench, Gauge, BookOpen, Shield,
+  FilePlus, FileInput, Trash2, Redo2, FileDiff,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import ReactMarkdown from "react-markdown";
+import ChangesetReview from "@/components/ChangesetReview";
+import PathPolicyDialog, { type PathPolicy } from "@/components/PathPolicyDialog";
+import UndoCommitDialog, { type UndoTarget } from "@/components/UndoCommitDialog";
+import MessageCommit, { type MessageCommitRow } from "@/components/MessageCommit";
+import CommitDiffDialog from "@/components/CommitDiffDialog";
+import { readSse } from "@/lib/sse";
+import { parseChangeEntry } from "@/lib/fileChanges";
+import { callFunction } from "@/lib/functions";
+import { getProvider, type AiProvider } from "@/lib/aiProviders";
+import {
+  sumUsage, formatCost, formatTokens, describeBudget, type UsageTotals, type ExhaustedBudget,
+} from "@/lib/usage";
+import type { Json } from "@/integrations/supabase/types";
 import {
   Dialog,
   DialogContent,
@@ -20,10 +35,13 @@ interface ChatInterfaceProps {
     id: string;
     repo_owner: string;
     repo_name: string;
-    github_token: string;
+    commit_mode: string;
+    review_first: boolean;
+    github_token_hint: string | null;
+    allow_globs: string[];
+    deny_globs: string[];
   };
   onDisconnect: () => void;
-  userId: string;
 }
 
 interface Message {
@@ -31,36 +49,146 @@ interface Message {
   role: "user" | "assistant";
   content: string;
   files_changed?: string[];
+  changeset_id?: string | null;
+  tool_calls?: ToolCallRecord[] | null;
+  instruction_files?: string[] | null;
   created_at?: string;
 }
 
-const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
+// One tool call the agent made, as recorded by code-agent
+interface ToolCallRecord {
+  tool: string;
+  summary: string;
+  ok: boolean;
+}
+
+interface AgentCommitResult {
+  commit_sha: string;
+  commit_message?: string | null;
+  files_changed?: string[];
+  branch?: string;
+  pull_request_url?: string | null;
+}
+
+// Payload of the code-agent stream events; which fields are set depends on the event
+interface AgentEventData {
+  step?: string;
+  message?: string;
+  intent?: string;
+  paths?: string[];
+  explanation?: string;
+  stage?: string;
+  text?: string;
+  path?: string;
+  status?: string;
+  error?: string;
+  response?: string;
+  files_changed?: string[];
+  commit_sha?: string | null;
+  commit_message?: string | null;
+  changeset_id?: string | null;
+  branch?: string;
+  pull_request_url?: string | null;
+  tool?: string;
+  summary?: string;
+  ok?: boolean;
+  tool_calls?: ToolCallRecord[];
+  instruction_files?: string[];
+  code?: string;
+  budget?: ExhaustedBudget;
+}
+
+interface LiveResponse {
+  content: string;
+  steps: string[];
+}
+
+const CHANGE_ICONS = { create: FilePlus, update: FileCode, delete: Trash2, rename: FileInput };
+
+const describeStep = (data: AgentEventData): string | null => {
+  switch (data.step) {
+    case "intent":
+      if (!data.intent) return null;
+      return data.intent === "code" ? "🛠️ Pedido de mudança no código" : null;
+    case "tree":
+      return `📂 ${data.message}`;
+    case "config":
+      return `⚙️ ${data.message}`;
+    case "instructions":
+      return `📘 Instruções: ${data.paths?.join(", ")}`;
+    case "injection":
+      return data.message || null;
+    case "plan":
+      return `✏️ Mudanças em: ${data.paths?.join(", ")}`;
+    default:
+      return null;
+  }
+};
+
+const ChatInterface = ({ repo, onDisconnect }: ChatInterfaceProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
+  const [codeModel, setCodeModel] = useState("");
+  const [provider, setProvider] = useState<AiProvider | null>(null);
+  const [usageByMessage, setUsageByMessage] = useState<Record<string, UsageTotals>>({});
+  const [exhaustedBudget, setExhaustedBudget] = useState<ExhaustedBudget | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isUndoing, setIsUndoing] = useState(false);
+  const [undoTargets, setUndoTargets] = useState<UndoTarget[] | null>(null);
+  const [diffSha, setDiffSha] = useState<string | null>(null);
   const [status, setStatus] = useState("");
+  const [liveResponse, setLiveResponse] = useState<LiveResponse | null>(null);
   const [commits, setCommits] = useState<any[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [commitMode, setCommitMode] = useState(repo.commit_mode);
+  const [reviewFirst, setReviewFirst] = useState(repo.review_first);
+  const [pathPolicy, setPathPolicy] = useState<PathPolicy>({ allow_globs: repo.allow_globs, deny_globs: repo.deny_globs });
+  const [showPathPolicy, setShowPathPolicy] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     loadMessages();
     loadCommits();
+    loadUsage();
+    setCommitMode(repo.commit_mode);
+    setReviewFirst(repo.review_first);
+    setPathPolicy({ allow_globs: repo.allow_globs, deny_globs: repo.deny_globs });
   }, [repo.id]);
 
+  useEffect(() => {
+    loadProvider();
+  }, []);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  const loadProvider = async () => {
+    const { data } = await supabase.from("profiles").select("ai_provider").maybeSingle();
+    setProvider(getProvider(data?.ai_provider));
+  };
+
+  // Token usage and cost of each request, keyed by the user message that started it
+  const loadUsage = async () => {
+    const { data } = await supabase
+      .from("ai_usage")
+      .select("chat_message_id, prompt_tokens, completion_tokens, cost_usd")
+      .eq("repository_id", repo.id)
+      .not("chat_message_id", "is", null);
+    if (!data) return;
+    const grouped: Record<string, typeof data> = {};
+    for (const row of data) (grouped[row.chat_message_id!] ||= []).push(row);
+    setUsageByMessage(Object.fromEntries(Object.entries(grouped).map(([id, rows]) => [id, sumUsage(rows)])));
+  };
+
   const loadMessages = async () => {
     const { data } = await supabase
       .from("chat_messages")
       .select("*")
       .eq("repository_id", repo.id)
       .order("created_at", { ascending: true });
-    if (data) setMessages(data as Message[]);
+    if (data) setMessages(data as unknown as Message[]);
   };
 
   const loadCommits = async () => {
@@ -79,38 +207,70 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
       toast({ title: "Nada para desfazer", description: "Nenhum commit disponível para reverter.", variant: "destructive" });
       return;
     }
+    await undoCommits([undoable]);
+  };
+
+  // Undoable commits on the same branch, from the newest down to `target`
+  const undoRange = (target: UndoTarget) =>
+    commits.slice(0, commits.indexOf(target) + 1).filter((c) => c.can_undo && c.branch === target.branch);
 
+  // undo-commit and redo-commit answer 409 with `conflicts` when later commits
+  // touched the same files; nothing was committed then
+  const readHistoryResponse = async (resp: Response, conflictTitle: string) => {
+    if (resp.ok) return resp.json();
+    const err = await resp.json();
+    if (resp.status === 409 && err.conflicts) {
+      toast({
+        title: conflictTitle,
+        description: `${err.error} Em conflito: ${err.conflicts.join(", ")}`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    throw new Error(err.error || "Erro ao alterar o histórico");
+  };
+
+  // Reverts `targets` (newest first, all on one branch) in a single commit
+  const undoCommits = async (targets: UndoTarget[]) => {
+    setUndoTargets(null);
     setIsUndoing(true);
     try {
-      const resp = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/undo-commit`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          commit_sha: undoable.commit_sha,
-          repo_owner: repo.repo_owner,
-          repo_name: repo.repo_name,
-          github_token: repo.github_token,
-        }),
+      const resp = await callFunction("undo-commit", {
+        commit_shas: targets.map((c) => c.commit_sha),
+        branch: targets[0].branch,
+        repository_id: repo.id,
       });
+      const data = await readHistoryResponse(resp, "Conflito ao desfazer");
+      if (!data) return;
 
-      if (!resp.ok) {
-        const err = await resp.json();
-        throw new Error(err.error || "Erro ao desfazer");
-      }
-
-      const data = await resp.json();
-
+      // The revert is part of the history too, linked from the commits it undid
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: revert } = data.commit_sha
+        ? await supabase.from("agent_commits").insert({
+            user_id: user!.id,
+            repository_id: repo.id,
+            kind: "revert",
+            commit_sha: data.commit_sha,
+            commit_message: data.commit_message,
+            files_changed: data.files_changed || [],
+            branch: targets[0].branch,
+            can_undo: false,
+          }).select("id").single()
+        : { data: null };
       await supabase
         .from("agent_commits")
-        .update({ can_undo: false })
-        .eq("id", undoable.id);
+        .update({ can_undo: false, reverted_by_id: revert?.id ?? null })
+        .in("id", targets.map((c) => c.id));
 
+      const skipped: string[] = data.skipped || [];
       toast({
         title: "Desfeito!",
-        description: `${data.files_reverted?.length || 0} arquivo(s) revertido(s).`,
+        description: [
+          data.commit_sha
+            ? `${data.files_reverted?.length || 0} arquivo(s) revertido(s) no commit ${data.commit_sha.slice(0, 7)}.`
+            : "As mudanças já não estavam na branch.",
+          skipped.length > 0 && `Já estavam revertidos: ${skipped.join(", ")}.`,
+        ].filter(Boolean).join(" "),
       });
 
       loadCommits();
@@ -121,82 +281,298 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
     }
   };
 
-  const sendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+  // The agent commit an assistant message reported, if it's among the loaded ones
+  const commitFor = (msg: Message) => (msg.id ? commits.find((c) => c.chat_message_id === msg.id) : undefined);
 
-    const userMessage: Message = { role: "user", content: input.trim() };
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    setIsLoading(true);
-    setStatus("Analisando código...");
+  const shortShaOf = (id: string | null) => commits.find((c) => c.id === id)?.commit_sha.slice(0, 7) ?? "…";
+
+  // Reverted commits can be re-applied unless a re-apply is already live
+  const canRedo = (c: MessageCommitRow) =>
+    c.kind === "change" && !c.can_undo &&
+    !commits.some((r) => r.kind === "redo" && r.source_commit_id === c.id && r.can_undo);
 
+  const redoCommit = async (original: UndoTarget) => {
+    setIsUndoing(true);
+    try {
+      const resp = await callFunction("redo-commit", {
+        commit_sha: original.commit_sha,
+        branch: original.branch,
+        repository_id: repo.id,
+      });
+      const data = await readHistoryResponse(resp, "Conflito ao refazer");
+      if (!data) return;
+
+      if (data.commit_sha) {
+        const { data: { user } } = await supabase.auth.getUser();
+        await supabase.from("agent_commits").insert({
+          user_id: user!.id,
+          repository_id: repo.id,
+          kind: "redo",
+          source_commit_id: original.id,
+          commit_sha: data.commit_sha,
+          commit_message: data.commit_message,
+          files_changed: data.files_changed || [],
+          branch: original.branch,
+        });
+      }
+
+      const skipped: string[] = data.skipped || [];
+      toast({
+        title: "Refeito!",
+        description: [
+          data.commit_sha
+            ? `${data.files_changed?.length || 0} arquivo(s) reaplicado(s) no commit ${data.commit_sha.slice(0, 7)}.`
+            : "As mudanças já estavam na branch.",
+          skipped.length > 0 && `Já estavam aplicados: ${skipped.join(", ")}.`,
+        ].filter(Boolean).join(" "),
+      });
+
+      loadCommits();
+    } catch (err) {
+      toast({ title: "Erro", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const toggleCommitMode = async () => {
+    const next = commitMode === "pull_request" ? "direct" : "pull_request";
+    const { error } = await supabase
+      .from("repositories")
+      .update({ commit_mode: next })
+      .eq("id", repo.id);
+    if (error) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+      return;
+    }
+    setCommitMode(next);
+    toast({
+      title: next === "pull_request" ? "Modo pull request" : "Modo commit direto",
+      description: next === "pull_request"
+        ? "As mudanças vão para uma branch nova com pull request."
+        : "As mudanças vão direto para a branch principal.",
+    });
+  };
+
+  const toggleReviewFirst = async () => {
+    const next = !reviewFirst;
+    const { error } = await supabase
+      .from("repositories")
+      .update({ review_first: next })
+      .eq("id", repo.id);
+    if (error) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+      return;
+    }
+    setReviewFirst(next);
+    toast({
+      title: next ? "Revisão ativada" : "Revisão desativada",
+      description: next
+        ? "O agente vai propor as mudanças e esperar sua aprovação antes de commitar."
+        : "O agente vai commitar as mudanças direto.",
+    });
+  };
+
+  // `chatMessageId` is the assistant message reporting the commit
+  const recordCommit = async (data: AgentCommitResult, chatMessageId: string | null) => {
     const { data: { user } } = await supabase.auth.getUser();
-    await supabase.from("chat_messages").insert({
+    await supabase.from("agent_commits").insert({
       user_id: user!.id,
       repository_id: repo.id,
-      role: "user",
-      content: userMessage.content,
+      chat_message_id: chatMessageId,
+      commit_sha: data.commit_sha,
+      commit_message: data.commit_message || "update via JTC COD",
+      files_changed: data.files_changed || [],
+      branch: data.pull_request_url ? data.branch : null,
+      pull_request_url: data.pull_request_url || null,
     });
+    loadCommits();
+  };
 
+  const applyChangeset = async (changesetId: string) => {
     try {
-      setStatus("Processando com IA...");
-
-      const resp = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/code-agent`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          message: userMessage.content,
-          repo_owner: repo.repo_owner,
-          repo_name: repo.repo_name,
-          github_token: repo.github_token,
-          history: messages.slice(-10).map((m) => ({ role: m.role, content: m.content })),
-          user_id: userId,
-        }),
+      const resp = await callFunction("apply-changeset", {
+        changeset_id: changesetId,
+        repository_id: repo.id,
       });
 
       if (!resp.ok) {
         const err = await resp.json();
-        throw new Error(err.error || "Erro do agente");
+        // Blocked changes (path policy, secrets, conflicts) are explained in the chat rather than in a toast
+        if ((resp.status === 422 || resp.status === 409) && err.response) {
+          const { data: { user } } = await supabase.auth.getUser();
+          setMessages((prev) => [...prev, { role: "assistant", content: err.response }]);
+          await supabase.from("chat_messages").insert({
+            user_id: user!.id,
+            repository_id: repo.id,
+            role: "assistant",
+            content: err.response,
+          });
+          return false;
+        }
+        throw new Error(err.error || "Erro ao aplicar");
       }
 
       const data = await resp.json();
+      const message: Message = { role: "assistant", content: data.response, files_changed: data.files_changed || [] };
+      setMessages((prev) => [...prev, message]);
 
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: data.response,
-        files_changed: data.files_changed || [],
-      };
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: saved } = await supabase
+        .from("chat_messages")
+        .insert({
+          user_id: user!.id,
+          repository_id: repo.id,
+          role: "assistant",
+          content: data.response,
+          files_changed: data.files_changed || [],
+        })
+        .select("id")
+        .single();
+      if (saved) setMessages((prev) => prev.map((m) => (m === message ? { ...m, id: saved.id } : m)));
+      await recordCommit(data, saved?.id ?? null);
+      return true;
+    } catch (err) {
+      toast({ title: "Erro", description: (err as Error).message, variant: "destructive" });
+      return false;
+    }
+  };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+  const sendMessage = async () => {
+    if (!input.trim() || isLoading) return;
 
-      await supabase.from("chat_messages").insert({
+    const userMessage: Message = { role: "user", content: input.trim() };
+    setMessages((prev) => [...prev, userMessage]);
+    setInput("");
+    // The model override only applies to this one message
+    const modelOverride = codeModel.trim();
+    setCodeModel("");
+    setExhaustedBudget(null);
+    setIsLoading(true);
+    setStatus("Conectando ao agente...");
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: savedMessage } = await supabase
+      .from("chat_messages")
+      .insert({
         user_id: user!.id,
         repository_id: repo.id,
-        role: "assistant",
-        content: data.response,
-        files_changed: data.files_changed || [],
-      });
+        role: "user",
+        content: userMessage.content,
+      })
+      .select("id")
+      .single();
+    if (savedMessage) {
+      setMessages((prev) => prev.map((m) => (m === userMessage ? { ...m, id: savedMessage.id } : m)));
+    }
 
-      if (data.commit_sha) {
-        await supabase.from("agent_commits").insert({
+    let live: LiveResponse = { content: "", steps: [] };
+    const updateLive = (next: Partial<LiveResponse>) => {
+      live = { ...live, ...next };
+      setLiveResponse(live);
+    };
+
+    // Returns the saved row's id, for linking the commit it reports
+    const saveAssistantMessage = async (message: Message) => {
+      setMessages((prev) => [...prev, message]);
+      const { data: saved } = await supabase
+        .from("chat_messages")
+        .insert({
           user_id: user!.id,
           repository_id: repo.id,
-          commit_sha: data.commit_sha,
-          commit_message: data.commit_message || "update via JTC COD",
-          files_changed: data.files_changed || [],
-        });
-        loadCommits();
+          role: "assistant",
+          content: message.content,
+          files_changed: message.files_changed || [],
+          changeset_id: message.changeset_id || null,
+          tool_calls: (message.tool_calls || null) as unknown as Json,
+          instruction_files: message.instruction_files || null,
+        })
+        .select("id")
+        .single();
+      if (saved) setMessages((prev) => prev.map((m) => (m === message ? { ...m, id: saved.id } : m)));
+      return saved?.id ?? null;
+    };
+
+    try {
+      const resp = await callFunction("code-agent", {
+        message: userMessage.content,
+        history: messages.slice(-10).map((m) => ({ role: m.role, content: m.content })),
+        repository_id: repo.id,
+        message_id: savedMessage?.id,
+        ...(modelOverride ? { code_model: modelOverride } : {}),
+        stream: true,
+      });
+
+      if (!resp.ok) {
+        const err: AgentEventData = await resp.json();
+        if (err.code === "budget_exhausted" && err.budget) {
+          setExhaustedBudget(err.budget);
+          return;
+        }
+        throw new Error(err.error || "Erro do agente");
       }
 
-      setStatus("");
+      let data: AgentEventData | null = null;
+      let streamError: string | null = null;
+      let budget: ExhaustedBudget | null = null;
+      let generatedChars = 0;
+
+      for await (const ev of readSse<AgentEventData>(resp)) {
+        if (ev.event === "step") {
+          const line = describeStep(ev.data);
+          if (line) updateLive({ steps: [...live.steps, line] });
+          if (ev.data.message) setStatus(ev.data.message);
+          if (ev.data.step === "plan" && ev.data.explanation) updateLive({ content: ev.data.explanation });
+        } else if (ev.event === "token") {
+          if (ev.data.stage === "chat") {
+            updateLive({ content: live.content + ev.data.text });
+          } else {
+            generatedChars += ev.data.text?.length || 0;
+            setStatus(`Gerando mudanças... (${generatedChars} caracteres)`);
+          }
+        } else if (ev.event === "tool") {
+          updateLive({ steps: [...live.steps, `${ev.data.ok ? "🔧" : "⚠️"} ${ev.data.summary}`] });
+        } else if (ev.event === "file") {
+          const icon = ev.data.status === "committed" ? "✅" : "❌";
+          updateLive({ steps: [...live.steps, `${icon} ${ev.data.path}`] });
+        } else if (ev.event === "done") {
+          data = ev.data;
+        } else if (ev.event === "error") {
+          streamError = ev.data.error || "Erro do agente";
+          if (ev.data.code === "budget_exhausted" && ev.data.budget) budget = ev.data.budget;
+        }
+      }
+
+      if (!data) {
+        // Keep whatever the agent already produced instead of dropping it
+        const partial = [live.content, live.steps.join("\n")].filter(Boolean).join("\n\n");
+        const error = streamError || "A conexão com o agente foi interrompida.";
+        if (budget) setExhaustedBudget(budget);
+        if (partial) {
+          await saveAssistantMessage({ role: "assistant", content: `${partial}\n\n❌ ${error}` });
+          return;
+        }
+        if (budget) return;
+        throw new Error(error);
+      }
+
+      const assistantMessageId = await saveAssistantMessage({
+        role: "assistant",
+        content: data.response,
+        files_changed: data.changeset_id ? [] : data.files_changed || [],
+        changeset_id: data.changeset_id || null,
+        tool_calls: data.tool_calls || null,
+        instruction_files: data.instruction_files || null,
+      });
+
+      if (data.commit_sha) await recordCommit(data as AgentCommitResult, assistantMessageId);
     } catch (err: any) {
       toast({ title: "Erro", description: err.message, variant: "destructive" });
-      setStatus("");
     } finally {
+      setStatus("");
+      setLiveResponse(null);
       setIsLoading(false);
+      loadUsage();
     }
   };
 
@@ -211,9 +587,48 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
           <span className="font-mono text-xs text-primary truncate">
             {repo.repo_owner}/{repo.repo_name}
           </span>
+          {repo.github_token_hint && (
+            <span className="font-mono text-xs text-muted-foreground hidden sm:inline" title="Token do GitHub salvo">
+              {repo.github_token_hint}
+            </span>
+          )}
           <span className="w-2 h-2 rounded-full bg-primary animate-pulse-glow flex-shrink-0" />
         </div>
         <div className="flex items-center gap-2 flex-shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={toggleCommitMode}
+            title={commitMode === "pull_request" ? "Abrindo pull requests" : "Commitando direto na branch principal"}
+            className={`text-xs font-mono ${commitMode === "pull_request" ? "border-primary/50 text-primary" : ""}`}
+          >
+            {commitMode === "pull_request" ? (
+              <GitPullRequest className="h-3 w-3 mr-1" />
+            ) : (
+              <GitCommit className="h-3 w-3 mr-1" />
+            )}
+            {commitMode === "pull_request" ? "PR" : "Direto"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={toggleReviewFirst}
+            title={reviewFirst ? "Mudanças esperam sua aprovação" : "Mudanças são commitadas direto"}
+            className={`text-xs font-mono ${reviewFirst ? "border-primary/50 text-primary" : ""}`}
+          >
+            <Eye className="h-3 w-3 mr-1" />
+            Revisar
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowPathPolicy(true)}
+            title={`${pathPolicy.deny_globs.length} bloqueado(s), ${pathPolicy.allow_globs.length || "todos"} permitido(s)`}
+            className="text-xs font-mono"
+          >
+            <Shield className="h-3 w-3 mr-1" />
+            Caminhos
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -284,13 +699,68 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
               {msg.files_changed && msg.files_changed.length > 0 && (
                 <div className="mt-2 pt-2 border-t border-border">
                   <p className="text-xs text-muted-foreground mb-1">Arquivos alterados:</p>
-                  {msg.files_changed.map((f, j) => (
-                    <span key={j} className="inline-flex items-center gap-1 text-xs text-primary mr-2">
-                      <FileCode className="h-3 w-3" /> {f}
-                    </span>
-                  ))}
+                  {msg.files_changed.map((f, j) => {
+                    const change = parseChangeEntry(f);
+                    const Icon = CHANGE_ICONS[change.action];
+                    return (
+                      <span
+                        key={j}
+                        className={`inline-flex items-center gap-1 text-xs mr-2 ${
+                          change.action === "delete" ? "text-destructive/80 line-through" : "text-primary"
+                        }`}
+                      >
+                        <Icon className="h-3 w-3" />
+                        {change.previous_path ? `${change.previous_path} → ${change.path}` : change.path}
+                      </span>
+                    );
+                  })}
                 </div>
               )}
+              <MessageCommit
+                commit={commitFor(msg)}
+                repoUrl={`https://github.com/${repo.repo_owner}/${repo.repo_name}`}
+                busy={isUndoing}
+                canRedo={canRedo}
+                onUndo={(c) => setUndoTargets([c])}
+                onRedo={redoCommit}
+                onDiff={(c) => setDiffSha(c.commit_sha)}
+              />
+              {msg.tool_calls && msg.tool_calls.length > 0 && (
+                <details className="mt-2 pt-2 border-t border-border">
+                  <summary className="text-xs text-muted-foreground font-mono cursor-pointer">
+                    <Wrench className="inline h-3 w-3 mr-1" />
+                    {msg.tool_calls.length} ação(ões) do agente
+                  </summary>
+                  <div className="mt-1 space-y-0.5">
+                    {msg.tool_calls.map((call, j) => (
+                      <p
+                        key={j}
+                        className={`text-xs font-mono break-all ${call.ok ? "text-muted-foreground" : "text-destructive/70"}`}
+                      >
+                        {call.summary}
+                      </p>
+                    ))}
+                  </div>
+                </details>
+              )}
+              {msg.instruction_files && msg.instruction_files.length > 0 && (
+                <p
+                  className="mt-2 text-xs text-muted-foreground font-mono break-all"
+                  title="Arquivos de instruções do repositório incluídos no prompt"
+                >
+                  <BookOpen className="inline h-3 w-3 mr-1" />
+                  {msg.instruction_files.join(", ")}
+                </p>
+              )}
+              {msg.changeset_id && (
+                <ChangesetReview changesetId={msg.changeset_id} onApply={applyChangeset} />
+              )}
+              {msg.id && usageByMessage[msg.id] && (
+                <p className="mt-1 text-[10px] text-muted-foreground font-mono text-right" title="Custo das chamadas de IA deste pedido">
+                  {formatCost(usageByMessage[msg.id].cost_usd)} ·{" "}
+                  {formatTokens(usageByMessage[msg.id].prompt_tokens + usageByMessage[msg.id].completion_tokens)} tokens
+                </p>
+              )}
             </div>
             {msg.role === "user" && (
               <div className="w-8 h-8 rounded bg-secondary flex items-center justify-center flex-shrink-0">
@@ -305,7 +775,19 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
             <div className="w-8 h-8 rounded bg-primary/20 flex items-center justify-center flex-shrink-0">
               <Bot className="h-4 w-4 text-primary" />
             </div>
-            <div className="bg-card border border-border rounded-lg p-3">
+            <div className="max-w-[75%] bg-card border border-border rounded-lg p-3">
+              {liveResponse?.content && (
+                <div className="prose prose-sm prose-invert max-w-none text-sm font-mono mb-2">
+                  <ReactMarkdown>{liveResponse.content}</ReactMarkdown>
+                </div>
+              )}
+              {liveResponse && liveResponse.steps.length > 0 && (
+                <div className="mb-2 space-y-0.5">
+                  {liveResponse.steps.map((line, j) => (
+                    <p key={j} className="text-xs text-muted-foreground font-mono break-all">{line}</p>
+                  ))}
+                </div>
+              )}
               <div className="flex items-center gap-2 text-primary font-mono text-sm">
                 <Loader2 className="h-4 w-4 animate-spin" />
                 {status}
@@ -318,6 +800,23 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
 
       {/* Input */}
       <div className="border-t border-border p-4">
+        {exhaustedBudget && (
+          <div className="mb-3 flex items-start gap-2 rounded border border-destructive/50 bg-destructive/10 p-3 font-mono text-xs">
+            <Gauge className="h-4 w-4 text-destructive flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-foreground">{describeBudget(exhaustedBudget).title}</p>
+              <p className="text-muted-foreground">{describeBudget(exhaustedBudget).detail}</p>
+            </div>
+            {exhaustedBudget.adjustable !== false && (
+              <Link to="/profile" className="text-primary hover:underline whitespace-nowrap">
+                Aumentar limite
+              </Link>
+            )}
+            <button type="button" onClick={() => setExhaustedBudget(null)} className="text-muted-foreground hover:text-foreground">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
         <form
           onSubmit={(e) => {
             e.preventDefault();
@@ -332,12 +831,42 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
             className="bg-muted border-border font-mono text-sm"
             disabled={isLoading}
           />
+          {provider && (
+            <>
+              <datalist id="chat-model-options">
+                {provider.modelOptions.map((m) => (
+                  <option key={m} value={m} />
+                ))}
+              </datalist>
+              <Input
+                list="chat-model-options"
+                value={codeModel}
+                onChange={(e) => setCodeModel(e.target.value)}
+                placeholder={provider.models.code}
+                title="Modelo de código só para esta mensagem"
+                className="bg-muted border-border font-mono text-xs w-40 hidden sm:block"
+                disabled={isLoading}
+              />
+            </>
+          )}
           <Button type="submit" disabled={isLoading || !input.trim()} size="icon">
             <Send className="h-4 w-4" />
           </Button>
         </form>
       </div>
 
+      <PathPolicyDialog
+        repositoryId={repo.id}
+        policy={pathPolicy}
+        open={showPathPolicy}
+        onOpenChange={setShowPathPolicy}
+        onSaved={setPathPolicy}
+      />
+
+      <UndoCommitDialog commits={undoTargets} onConfirm={undoCommits} onCancel={() => setUndoTargets(null)} />
+
+      <CommitDiffDialog repositoryId={repo.id} commitSha={diffSha} onClose={() => setDiffSha(null)} />
+
       {/* History Dialog */}
       <Dialog open={showHistory} onOpenChange={setShowHistory}>
         <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
@@ -367,25 +896,101 @@ const ChatInterface = ({ repo, onDisconnect, userId }: ChatInterfaceProps) => {
                     >
                       <p className="text-sm font-mono text-foreground">{c.commit_message}</p>
                       <div className="flex items-center justify-between mt-1">
-                        <p className="text-xs text-muted-foreground font-mono">
+                        <button
+                          type="button"
+                          onClick={() => setDiffSha(c.commit_sha)}
+                          className="inline-flex items-center gap-1 text-xs text-muted-foreground font-mono hover:text-foreground"
+                          title="Ver o diff"
+                        >
+                          <FileDiff className="h-3 w-3" />
                           {c.commit_sha?.slice(0, 7)}
-                        </p>
+                        </button>
                         <p className="text-xs text-muted-foreground font-mono">
                           {new Date(c.created_at).toLocaleString("pt-BR", {
                             day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit",
                           })}
                         </p>
                       </div>
-                      {!c.can_undo && (
-                        <span className="text-xs font-mono text-destructive/70">revertido</span>
+                      {c.kind === "revert" && (
+                        <span className="text-xs font-mono text-muted-foreground">↩ revert</span>
+                      )}
+                      {c.kind === "redo" && (
+                        <span className="text-xs font-mono text-muted-foreground">
+                          ↪ reaplica {shortShaOf(c.source_commit_id)}
+                        </span>
+                      )}
+                      {!c.can_undo && c.kind !== "revert" && (
+                        <span className="ml-2 text-xs font-mono text-destructive/70">
+                          {c.reverted_by_id ? `revertido em ${shortShaOf(c.reverted_by_id)}` : "revertido"}
+                        </span>
+                      )}
+                      {canRedo(c) && (
+                        <div className="mt-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => redoCommit(c)}
+                            disabled={isUndoing}
+                            className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+                          >
+                            <Redo2 className="h-3 w-3 mr-1" /> Refazer
+                          </Button>
+                        </div>
+                      )}
+                      {c.can_undo && (
+                        <div className="mt-1 flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setUndoTargets([c])}
+                            disabled={isUndoing}
+                            className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" /> Desfazer
+                          </Button>
+                          {undoRange(c).length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setUndoTargets(undoRange(c))}
+                              disabled={isUndoing}
+                              className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+                              title="Desfaz este commit e todos os mais recentes da mesma branch"
+                            >
+                              <History className="h-3 w-3 mr-1" /> Voltar até aqui ({undoRange(c).length})
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {c.pull_request_url && (
+                        <a
+                          href={c.pull_request_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="mt-1 flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+                        >
+                          <GitPullRequest className="h-3 w-3" />
+                          {c.branch || "pull request"}
+                        </a>
                       )}
                       {c.files_changed?.length > 0 && (
                         <div className="mt-1 flex flex-wrap gap-1">
-                          {c.files_changed.map((f: string, j: number) => (
-                            <span key={j} className="text-xs text-primary/70 font-mono bg-primary/5 px-1 rounded">
-                              {f.split("/").pop()}
-                            </span>
-                          ))}
+                          {c.files_changed.map((f: string, j: number) => {
+                            const change = parseChangeEntry(f);
+                            const name = (path: string) => path.split("/").pop();
+                            return (
+                              <span
+                                key={j}
+                                className={`text-xs font-mono px-1 rounded ${
+                                  change.action === "delete"
+                                    ? "text-destructive/70 bg-destructive/5 line-through"
+                                    : "text-primary/70 bg-primary/5"
+                                }`}
+                              >
+                                {change.previous_path ? `${name(change.previous_path)} → ${name(change.path)}` : name(change.path)}
+                              </span>
+                            );
+                          })}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  FileDiff, FileCode, FilePlus, FileInput, Trash2, Loader2, Rows2, Columns2, ExternalLink,
+} from "lucide-react";
+import { UnifiedDiff, SplitDiff } from "@/components/DiffView";
+import { parsePatch } from "@/lib/diff";
+import { callFunction } from "@/lib/functions";
+
+interface CommitDiffFile {
+  filename: string;
+  previous_filename?: string;
+  // GitHub's file status: added, modified, removed, renamed...
+  status: string;
+  additions: number;
+  deletions: number;
+  patch: string | null;
+}
+
+interface CommitDiff {
+  sha: string;
+  message: string;
+  html_url: string;
+  files: CommitDiffFile[];
+}
+
+interface CommitDiffDialogProps {
+  repositoryId: string;
+  // null while closed
+  commitSha: string | null;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<string, typeof FileCode> = { added: FilePlus, removed: Trash2, renamed: FileInput };
+
+// The commit's patch, fetched through commit-diff so the GitHub token never
+// reaches the browser
+const CommitDiffDialog = ({ repositoryId, commitSha, onClose }: CommitDiffDialogProps) => {
+  const [diff, setDiff] = useState<CommitDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [split, setSplit] = useState(false);
+
+  useEffect(() => {
+    if (!commitSha) return;
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    (async () => {
+      try {
+        const resp = await callFunction("commit-diff", { repository_id: repositoryId, commit_sha: commitSha });
+        const data = await resp.json();
+        if (!resp.ok) throw new Error(data.error || "Erro ao carregar o diff");
+        if (!cancelled) setDiff(data);
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [repositoryId, commitSha]);
+
+  const DiffBody = split ? SplitDiff : UnifiedDiff;
+
+  return (
+    <Dialog open={commitSha !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-mono pr-6">
+            <FileDiff className="h-5 w-5 text-primary shrink-0" />
+            <span className="truncate">{diff ? diff.message.split("\n")[0] : commitSha?.slice(0, 7)}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-xs font-mono text-destructive">{error}</p>
+        ) : !diff ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <a
+                href={diff.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+              >
+                {diff.sha.slice(0, 7)}
+                <ExternalLink className="h-3 w-3 opacity-60" />
+              </a>
+              <div className="flex gap-1">
+                <Button
+                  variant={split ? "ghost" : "secondary"}
+                  size="sm"
+                  onClick={() => setSplit(false)}
+                  className="h-6 px-2 text-xs font-mono"
+                >
+                  <Rows2 className="h-3 w-3 mr-1" /> Unificado
+                </Button>
+                <Button
+                  variant={split ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSplit(true)}
+                  className="h-6 px-2 text-xs font-mono"
+                >
+                  <Columns2 className="h-3 w-3 mr-1" /> Lado a lado
+                </Button>
+              </div>
+            </div>
+
+            {diff.files.length === 0 && (
+              <p className="text-xs text-muted-foreground font-mono">Nenhum arquivo alterado.</p>
+            )}
+            {diff.files.map((file) => {
+              const Icon = STATUS_ICONS[file.status] ?? FileCode;
+              return (
+                <div key={file.filename} className="border border-border rounded">
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 bg-muted/50 border-b border-border">
+                    <span
+                      className={`flex items-center gap-1 text-xs font-mono truncate ${
+                        file.status === "removed" ? "text-destructive/80 line-through" : "text-primary"
+                      }`}
+                    >
+                      <Icon className="h-3 w-3 shrink-0" />
+                      {file.previous_filename ? `${file.previous_filename} → ${file.filename}` : file.filename}
+                    </span>
+                    <span className="text-xs font-mono shrink-0">
+                      <span className="text-primary">+{file.additions}</span>{" "}
+                      <span className="text-destructive">−{file.deletions}</span>
+                    </span>
+                  </div>
+                  {file.patch ? (
+                    <DiffBody items={parsePatch(file.patch)} path={file.filename} />
+                  ) : (
+                    <p className="px-3 py-2 text-xs text-muted-foreground font-mono">
+                      Sem diff de texto (arquivo binário ou grande demais).
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommitDiffDialog;
@@ -0,0 +1,98 @@
+import { toSplitItems, type DiffItem, type DiffLine, type DiffMarker } from "@/lib/diff";
+import { highlightLine, languageFor, type TokenKind } from "@/lib/highlight";
+
+interface DiffViewProps {
+  items: DiffItem[];
+  // Picks the syntax highlighting
+  path: string;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: "",
+  keyword: "text-violet-400",
+  string: "text-amber-300",
+  comment: "text-muted-foreground italic",
+  number: "text-sky-400",
+};
+
+const lineClass = (line?: DiffLine) => {
+  if (!line) return "bg-muted/30";
+  if (line.type === "add") return "bg-primary/10 text-primary";
+  if (line.type === "remove") return "bg-destructive/10 text-destructive";
+  return "text-foreground/70";
+};
+
+const Code = ({ text, language }: { text: string; language: string | null }) => (
+  <>
+    {highlightLine(text, language).map((token, i) => (
+      <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+    ))}
+  </>
+);
+
+const isMarker = (item: object): item is DiffMarker => "type" in item && (item.type === "skip" || item.type === "hunk");
+
+const MarkerRow = ({ marker, colSpan }: { marker: DiffMarker; colSpan: number }) => (
+  <tr>
+    <td
+      colSpan={colSpan}
+      className={`px-2 py-0.5 text-muted-foreground/60 bg-muted/20 truncate ${marker.type === "skip" ? "text-center" : ""}`}
+    >
+      {marker.type === "skip" ? `⋯ ${marker.count} linha(s) sem mudança` : marker.header}
+    </td>
+  </tr>
+);
+
+const numberCell = "w-8 pr-1 text-right text-muted-foreground/50 select-none align-top";
+
+export const UnifiedDiff = ({ items, path }: DiffViewProps) => {
+  const language = languageFor(path);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[11px] font-mono border-collapse">
+        <tbody>
+          {items.map((item, i) =>
+            isMarker(item) ? (
+              <MarkerRow key={i} marker={item} colSpan={4} />
+            ) : (
+              <tr key={i} className={lineClass(item)}>
+                <td className={numberCell}>{item.oldNumber}</td>
+                <td className={numberCell}>{item.newNumber}</td>
+                <td className="w-3 select-none align-top">{item.type === "add" ? "+" : item.type === "remove" ? "-" : " "}</td>
+                <td className="px-1 whitespace-pre align-top"><Code text={item.text} language={language} /></td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const SplitDiff = ({ items, path }: DiffViewProps) => {
+  const language = languageFor(path);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[11px] font-mono border-collapse">
+        <tbody>
+          {toSplitItems(items).map((row, i) =>
+            isMarker(row) ? (
+              <MarkerRow key={i} marker={row} colSpan={4} />
+            ) : (
+              <tr key={i}>
+                <td className={numberCell}>{row.left?.oldNumber}</td>
+                <td className={`w-1/2 px-1 whitespace-pre align-top ${lineClass(row.left)}`}>
+                  {row.left && <Code text={row.left.text} language={language} />}
+                </td>
+                <td className={`${numberCell} border-l border-border`}>{row.right?.newNumber}</td>
+                <td className={`w-1/2 px-1 whitespace-pre align-top ${lineClass(row.right)}`}>
+                  {row.right && <Code text={row.right.text} language={language} />}
+                </td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
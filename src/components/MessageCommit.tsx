@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { GitCommit, Undo2, Redo2, ExternalLink, FileDiff } from "lucide-react";
+import type { UndoTarget } from "@/components/UndoCommitDialog";
+
+export interface MessageCommitRow extends UndoTarget {
+  kind: string;
+  can_undo: boolean;
+}
+
+interface MessageCommitProps {
+  // Renders nothing when the message didn't produce a commit
+  commit: MessageCommitRow | undefined;
+  // https://github.com/<owner>/<name>
+  repoUrl: string;
+  busy: boolean;
+  canRedo: (commit: MessageCommitRow) => boolean;
+  onUndo: (commit: MessageCommitRow) => void;
+  onRedo: (commit: MessageCommitRow) => void;
+  onDiff: (commit: MessageCommitRow) => void;
+}
+
+// Footer of an assistant bubble: the commit it produced, with undo/redo in place
+const MessageCommit = ({ commit, repoUrl, busy, canRedo, onUndo, onRedo, onDiff }: MessageCommitProps) => commit ? (
+  <div className="mt-2 pt-2 border-t border-border flex items-center justify-between gap-2">
+    <a
+      href={`${repoUrl}/commit/${commit.commit_sha}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      title="Ver o commit no GitHub"
+      className="inline-flex items-center gap-1 text-xs font-mono text-primary hover:underline"
+    >
+      <GitCommit className="h-3 w-3" />
+      {commit.commit_sha.slice(0, 7)}
+      <ExternalLink className="h-3 w-3 opacity-60" />
+    </a>
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onDiff(commit)}
+        className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+      >
+        <FileDiff className="h-3 w-3 mr-1" /> Diff
+      </Button>
+      {!commit.can_undo && <span className="text-xs font-mono text-destructive/70">revertido</span>}
+      {commit.can_undo && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onUndo(commit)}
+          disabled={busy}
+          className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+        >
+          <Undo2 className="h-3 w-3 mr-1" /> Desfazer
+        </Button>
+      )}
+      {canRedo(commit) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onRedo(commit)}
+          disabled={busy}
+          className="h-6 px-2 text-xs font-mono text-muted-foreground hover:text-foreground"
+        >
+          <Redo2 className="h-3 w-3 mr-1" /> Refazer
+        </Button>
+      )}
+    </div>
+  </div>
+) : null;
+
+export default MessageCommit;
@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Shield, Save, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export interface PathPolicy {
+  allow_globs: string[];
+  deny_globs: string[];
+}
+
+interface PathPolicyDialogProps {
+  repositoryId: string;
+  policy: PathPolicy;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (policy: PathPolicy) => void;
+}
+
+// One glob per line; blank lines and duplicates are dropped
+const toGlobs = (text: string) => [...new Set(text.split("\n").map((l) => l.trim()).filter(Boolean))];
+
+const PathPolicyDialog = ({ repositoryId, policy, open, onOpenChange, onSaved }: PathPolicyDialogProps) => {
+  const [allow, setAllow] = useState("");
+  const [deny, setDeny] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setAllow(policy.allow_globs.join("\n"));
+    setDeny(policy.deny_globs.join("\n"));
+  }, [open, policy]);
+
+  const save = async () => {
+    const next = { allow_globs: toGlobs(allow), deny_globs: toGlobs(deny) };
+    setSaving(true);
+    const { error } = await supabase.from("repositories").update(next).eq("id", repositoryId);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+      return;
+    }
+    onSaved(next);
+    onOpenChange(false);
+    toast({ title: "Política de caminhos salva" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-mono">
+            <Shield className="h-5 w-5 text-primary" />
+            Caminhos que o agente pode alterar
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-2">Bloqueados</p>
+            <Textarea
+              value={deny}
+              onChange={(e) => setDeny(e.target.value)}
+              placeholder={".github/workflows/**\n**/*.lock\nsupabase/migrations/**"}
+              className="bg-muted border-border font-mono text-xs min-h-[100px]"
+            />
+          </div>
+          <div>
+            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-2">Permitidos</p>
+            <Textarea
+              value={allow}
+              onChange={(e) => setAllow(e.target.value)}
+              placeholder={"src/**\npublic/**"}
+              className="bg-muted border-border font-mono text-xs min-h-[80px]"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground font-mono">
+            Um glob por linha, como no .gitignore. <code>*</code> não passa de uma pasta, <code>**</code> passa de
+            várias, e um padrão sem barra no meio (<code>*.lock</code>, <code>dist/</code>) vale em qualquer pasta; com
+            barra no começo ou no meio, só a partir da raiz. Bloqueios sempre vencem; sem nenhum permitido, tudo que não
+            está bloqueado é permitido.
+          </p>
+          <Button onClick={save} disabled={saving} className="w-full font-mono">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Salvar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PathPolicyDialog;
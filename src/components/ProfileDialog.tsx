@@ -18,6 +18,7 @@ import {
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { User, Key, Lock, Save, Loader2, Upload, Eye, EyeOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { AI_PROVIDERS, DEFAULT_PROVIDER_ID, getProvider } from "@/lib/aiProviders";
 
 interface ProfileDialogProps {
   open: boolean;
@@ -28,8 +29,10 @@ interface ProfileDialogProps {
 const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
   const [displayName, setDisplayName] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
-  const [aiProvider, setAiProvider] = useState("gemini");
+  const [aiProvider, setAiProvider] = useState(DEFAULT_PROVIDER_ID);
+  const [aiBaseUrl, setAiBaseUrl] = useState("");
   const [aiApiKey, setAiApiKey] = useState("");
+  const [aiApiKeyHint, setAiApiKeyHint] = useState<string | null>(null);
   const [showApiKey, setShowApiKey] = useState(false);
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -45,15 +48,17 @@ const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
   const loadProfile = async () => {
     const { data } = await supabase
       .from("profiles")
-      .select("*")
+      .select("display_name, avatar_url, ai_provider, ai_api_key_hint, ai_base_url")
       .eq("user_id", userId)
       .maybeSingle();
 
     if (data) {
       setDisplayName(data.display_name || "");
       setAvatarUrl(data.avatar_url || "");
-      setAiProvider(data.ai_provider || "gemini");
-      setAiApiKey(data.ai_api_key || "");
+      setAiProvider(data.ai_provider || DEFAULT_PROVIDER_ID);
+      setAiBaseUrl(data.ai_base_url || "");
+      setAiApiKeyHint(data.ai_api_key_hint);
+      setAiApiKey("");
     }
   };
 
@@ -93,17 +98,21 @@ const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
   const handleSaveProfile = async () => {
     setLoading(true);
     try {
+      // The stored key is never sent back, so it's only replaced when a new one is typed
+      const newKey = aiApiKey.trim();
       const { error } = await supabase
         .from("profiles")
         .update({
           display_name: displayName.trim(),
           avatar_url: avatarUrl,
           ai_provider: aiProvider,
-          ai_api_key: aiApiKey.trim(),
+          ai_base_url: aiBaseUrl.trim() || null,
+          ...(newKey ? { ai_api_key: newKey } : {}),
         })
         .eq("user_id", userId);
 
       if (error) throw error;
+      if (newKey) await loadProfile();
       toast({ title: "Perfil salvo!" });
     } catch (err: any) {
       toast({ title: "Erro", description: err.message, variant: "destructive" });
@@ -136,6 +145,7 @@ const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
     }
   };
 
+  const provider = getProvider(aiProvider);
   const initials = displayName ? displayName.slice(0, 2).toUpperCase() : "US";
 
   return (
@@ -205,20 +215,39 @@ const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="gemini">Google Gemini</SelectItem>
-                    <SelectItem value="openai">OpenAI (ChatGPT)</SelectItem>
+                    {AI_PROVIDERS.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {provider.baseUrl === "required" && (
+                <div>
+                  <label className="text-sm font-mono text-muted-foreground mb-1 block">URL do servidor</label>
+                  <Input
+                    value={aiBaseUrl}
+                    onChange={(e) => setAiBaseUrl(e.target.value)}
+                    placeholder={provider.baseUrlPlaceholder}
+                    className="bg-muted border-border font-mono text-sm"
+                  />
+                </div>
+              )}
+
               <div>
-                <label className="text-sm font-mono text-muted-foreground mb-1 block">API Key</label>
+                <label className="text-sm font-mono text-muted-foreground mb-1 block">
+                  API Key{!provider.requiresKey && " (opcional)"}
+                </label>
                 <div className="relative">
                   <Input
                     type={showApiKey ? "text" : "password"}
                     value={aiApiKey}
                     onChange={(e) => setAiApiKey(e.target.value)}
-                    placeholder={aiProvider === "gemini" ? "AIzaSy..." : "sk-..."}
+                    placeholder={
+                      aiApiKeyHint
+                        ? `${aiApiKeyHint} (digite para substituir)`
+                        : provider.keyPlaceholder
+                    }
                     className="bg-muted border-border font-mono text-sm pr-10"
                   />
                   <button
@@ -230,10 +259,13 @@ const ProfileDialog = ({ open, onOpenChange, userId }: ProfileDialogProps) => {
                   </button>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1 font-mono">
-                  {aiProvider === "gemini"
-                    ? "Obtenha em aistudio.google.com"
-                    : "Obtenha em platform.openai.com"}
+                  {provider.help}
                 </p>
+                {aiApiKeyHint && (
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    Chave salva (criptografada): {aiApiKeyHint}. Deixe em branco para manter.
+                  </p>
+                )}
               </div>
             </div>
           </div>
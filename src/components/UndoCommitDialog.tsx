@@ -0,0 +1,75 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Undo2 } from "lucide-react";
+import { formatChangeEntry } from "@/lib/fileChanges";
+
+export interface UndoTarget {
+  id: string;
+  commit_sha: string;
+  commit_message: string;
+  files_changed: string[] | null;
+  // Commits made in pull-request mode live on their own branch
+  branch: string | null;
+}
+
+interface UndoCommitDialogProps {
+  // Newest first; null while closed
+  commits: UndoTarget[] | null;
+  onConfirm: (commits: UndoTarget[]) => void;
+  onCancel: () => void;
+}
+
+const UndoCommitDialog = ({ commits, onConfirm, onCancel }: UndoCommitDialogProps) => {
+  const files = [...new Set((commits || []).flatMap((c) => c.files_changed || []))];
+
+  return (
+    <AlertDialog open={commits !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 font-mono">
+            <Undo2 className="h-5 w-5 text-primary" />
+            {commits?.length === 1 ? "Desfazer este commit?" : `Desfazer ${commits?.length} commits?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription className="font-mono text-xs">
+            Um commit de revert vai ser criado na branch. Se algum arquivo mudou depois, nada é revertido.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          <div className="space-y-1">
+            {commits?.map((c) => (
+              <p key={c.id} className="text-xs font-mono truncate">
+                <span className="text-muted-foreground">{c.commit_sha.slice(0, 7)}</span> {c.commit_message}
+              </p>
+            ))}
+          </div>
+          {files.length > 0 && (
+            <div>
+              <p className="text-xs text-muted-foreground font-mono mb-1">Arquivos que voltam ao estado anterior:</p>
+              {files.map((f) => (
+                <p key={f} className="text-xs text-primary font-mono break-all">{formatChangeEntry(f)}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel className="font-mono text-xs">Cancelar</AlertDialogCancel>
+          <AlertDialogAction onClick={() => commits && onConfirm(commits)} className="font-mono text-xs">
+            Desfazer
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default UndoCommitDialog;
@@ -14,38 +14,90 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_limits: {
+        Row: {
+          created_at: string
+          hourly_request_limit: number | null
+          monthly_budget_usd: number | null
+          monthly_token_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hourly_request_limit?: number | null
+          monthly_budget_usd?: number | null
+          monthly_token_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hourly_request_limit?: number | null
+          monthly_budget_usd?: number | null
+          monthly_token_limit?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       agent_commits: {
         Row: {
+          branch: string | null
           can_undo: boolean
+          chat_message_id: string | null
           commit_message: string
           commit_sha: string
           created_at: string
           files_changed: string[] | null
           id: string
+          kind: string
+          pull_request_url: string | null
           repository_id: string
+          reverted_by_id: string | null
+          source_commit_id: string | null
           user_id: string
         }
         Insert: {
+          branch?: string | null
           can_undo?: boolean
+          chat_message_id?: string | null
           commit_message: string
           commit_sha: string
           created_at?: string
           files_changed?: string[] | null
           id?: string
+          kind?: string
+          pull_request_url?: string | null
           repository_id: string
+          reverted_by_id?: string | null
+          source_commit_id?: string | null
           user_id: string
         }
         Update: {
+          branch?: string | null
           can_undo?: boolean
+          chat_message_id?: string | null
           commit_message?: string
           commit_sha?: string
           created_at?: string
           files_changed?: string[] | null
           id?: string
+          kind?: string
+          pull_request_url?: string | null
           repository_id?: string
+          reverted_by_id?: string | null
+          source_commit_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "agent_commits_chat_message_id_fkey"
+            columns: ["chat_message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "agent_commits_repository_id_fkey"
             columns: ["repository_id"]
@@ -53,37 +105,193 @@ export type Database = {
             referencedRelation: "repositories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "agent_commits_reverted_by_id_fkey"
+            columns: ["reverted_by_id"]
+            isOneToOne: false
+            referencedRelation: "agent_commits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_commits_source_commit_id_fkey"
+            columns: ["source_commit_id"]
+            isOneToOne: false
+            referencedRelation: "agent_commits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_prices: {
+        Row: {
+          input_usd_per_mtok: number
+          model: string
+          output_usd_per_mtok: number
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          input_usd_per_mtok: number
+          model: string
+          output_usd_per_mtok: number
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          input_usd_per_mtok?: number
+          model?: string
+          output_usd_per_mtok?: number
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_requests: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_usage: {
+        Row: {
+          chat_message_id: string | null
+          completion_tokens: number
+          cost_usd: number | null
+          created_at: string
+          id: string
+          model: string
+          prompt_tokens: number
+          provider: string
+          repository_id: string | null
+          request_id: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          chat_message_id?: string | null
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          model: string
+          prompt_tokens?: number
+          provider: string
+          repository_id?: string | null
+          request_id?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          chat_message_id?: string | null
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          repository_id?: string | null
+          request_id?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_chat_message_id_fkey"
+            columns: ["chat_message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      app_settings: {
+        Row: {
+          default_hourly_request_limit: number | null
+          default_monthly_budget_usd: number | null
+          default_monthly_token_limit: number | null
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          default_hourly_request_limit?: number | null
+          default_monthly_budget_usd?: number | null
+          default_monthly_token_limit?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          default_hourly_request_limit?: number | null
+          default_monthly_budget_usd?: number | null
+          default_monthly_token_limit?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
+          changeset_id: string | null
           content: string
           created_at: string
           files_changed: string[] | null
           id: string
+          instruction_files: string[] | null
           repository_id: string
           role: string
+          tool_calls: Json | null
           user_id: string
         }
         Insert: {
+          changeset_id?: string | null
           content: string
           created_at?: string
           files_changed?: string[] | null
           id?: string
+          instruction_files?: string[] | null
           repository_id: string
           role: string
+          tool_calls?: Json | null
           user_id: string
         }
         Update: {
+          changeset_id?: string | null
           content?: string
           created_at?: string
           files_changed?: string[] | null
           id?: string
+          instruction_files?: string[] | null
           repository_id?: string
           role?: string
+          tool_calls?: Json | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_messages_changeset_id_fkey"
+            columns: ["changeset_id"]
+            isOneToOne: false
+            referencedRelation: "pending_changesets"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_messages_repository_id_fkey"
             columns: ["repository_id"]
@@ -93,34 +301,102 @@ export type Database = {
           },
         ]
       }
+      pending_changesets: {
+        Row: {
+          branch: string
+          changes: Json
+          commit_message: string
+          commit_sha: string | null
+          created_at: string
+          explanation: string | null
+          id: string
+          repository_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          branch: string
+          changes?: Json
+          commit_message: string
+          commit_sha?: string | null
+          created_at?: string
+          explanation?: string | null
+          id?: string
+          repository_id: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          branch?: string
+          changes?: Json
+          commit_message?: string
+          commit_sha?: string | null
+          created_at?: string
+          explanation?: string | null
+          id?: string
+          repository_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_changesets_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           ai_api_key: string | null
+          ai_api_key_hint: string | null
+          ai_base_url: string | null
+          ai_model_settings: Json
           ai_provider: string | null
           avatar_url: string | null
           created_at: string
           display_name: string | null
+          hourly_request_limit: number | null
           id: string
+          monthly_budget_usd: number | null
+          monthly_token_limit: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
           ai_api_key?: string | null
+          ai_api_key_hint?: string | null
+          ai_base_url?: string | null
+          ai_model_settings?: Json
           ai_provider?: string | null
           avatar_url?: string | null
           created_at?: string
           display_name?: string | null
+          hourly_request_limit?: number | null
           id?: string
+          monthly_budget_usd?: number | null
+          monthly_token_limit?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
           ai_api_key?: string | null
+          ai_api_key_hint?: string | null
+          ai_base_url?: string | null
+          ai_model_settings?: Json
           ai_provider?: string | null
           avatar_url?: string | null
           created_at?: string
           display_name?: string | null
+          hourly_request_limit?: number | null
           id?: string
+          monthly_budget_usd?: number | null
+          monthly_token_limit?: number | null
           updated_at?: string
           user_id?: string
         }
@@ -128,35 +404,50 @@ export type Database = {
       }
       repositories: {
         Row: {
+          allow_globs: string[]
+          commit_mode: string
           created_at: string
+          deny_globs: string[]
           github_token: string
+          github_token_hint: string | null
           id: string
           is_active: boolean
           repo_name: string
           repo_owner: string
           repo_url: string
+          review_first: boolean
           updated_at: string
           user_id: string
         }
         Insert: {
+          allow_globs?: string[]
+          commit_mode?: string
           created_at?: string
+          deny_globs?: string[]
           github_token: string
+          github_token_hint?: string | null
           id?: string
           is_active?: boolean
           repo_name: string
           repo_owner: string
           repo_url: string
+          review_first?: boolean
           updated_at?: string
           user_id: string
         }
         Update: {
+          allow_globs?: string[]
+          commit_mode?: string
           created_at?: string
+          deny_globs?: string[]
           github_token?: string
+          github_token_hint?: string | null
           id?: string
           is_active?: boolean
           repo_name?: string
           repo_owner?: string
           repo_url?: string
+          review_first?: boolean
           updated_at?: string
           user_id?: string
         }
@@ -164,10 +455,40 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      ai_usage_monthly: {
+        Row: {
+          calls: number | null
+          completion_tokens: number | null
+          cost_usd: number | null
+          model: string | null
+          month: string | null
+          prompt_tokens: number | null
+          provider: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      decrypt_secret: { Args: { secret: string }; Returns: string }
+      encrypt_secret: { Args: { plain: string }; Returns: string }
+      mask_secret: { Args: { plain: string }; Returns: string }
+      secrets_key: { Args: never; Returns: string }
+      start_ai_request: {
+        Args: { p_hourly_limit?: number; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          requests: number
+        }[]
+      }
+      usage_since: {
+        Args: { p_since: string; p_user_id: string }
+        Returns: {
+          cost_usd: number
+          requests: number
+          tokens: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,6 @@
+// The provider registry lives with the edge functions (which can't import
+// from src/); the profile page reads the same list from here.
+export {
+  AI_PROVIDERS, DEFAULT_PROVIDER_ID, MODEL_ROLES, baseUrlProblem, getProvider, validateModelSettings,
+  type AiProvider, type ModelRole, type ModelSettings,
+} from "../../supabase/functions/_shared/providers";
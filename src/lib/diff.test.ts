@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { parsePatch, toSplitItems } from "./diff";
+
+const patch = `@@ -1,3 +1,3 @@ import x
+ const a = 1;
+-const b = 2;
++const b = 3;
+ const c = 4;
+@@ -10,2 +10,3 @@
+ end();
++more();
+\\ No newline at end of file`;
+
+describe("parsePatch", () => {
+  it("numbers lines from each hunk header", () => {
+    const items = parsePatch(patch);
+    expect(items[0]).toEqual({ type: "hunk", header: "@@ -1,3 +1,3 @@ import x" });
+    expect(items[2]).toEqual({ type: "remove", text: "const b = 2;", oldNumber: 2 });
+    expect(items[3]).toEqual({ type: "add", text: "const b = 3;", newNumber: 2 });
+    expect(items[6]).toEqual({ type: "context", text: "end();", oldNumber: 10, newNumber: 10 });
+    expect(items[7]).toEqual({ type: "add", text: "more();", newNumber: 11 });
+    expect(items).toHaveLength(8);
+  });
+});
+
+describe("toSplitItems", () => {
+  it("pairs replaced lines and keeps the hunk markers", () => {
+    const rows = toSplitItems(parsePatch(patch));
+    expect(rows[0]).toMatchObject({ type: "hunk" });
+    expect(rows[2]).toEqual({
+      left: { type: "remove", text: "const b = 2;", oldNumber: 2 },
+      right: { type: "add", text: "const b = 3;", newNumber: 2 },
+    });
+    expect(rows[4]).toMatchObject({ type: "hunk" });
+    expect(rows).toHaveLength(7);
+  });
+});
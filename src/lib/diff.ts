@@ -0,0 +1,171 @@
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Gaps between the lines a view shows: unchanged lines collapsed by
+// collapseContext, or the start of a hunk in a patch
+export type DiffMarker = { type: "skip"; count: number } | { type: "hunk"; header: string };
+
+export type DiffItem = DiffLine | DiffMarker;
+
+// Above this many LCS cells the changed middle is shown as a full replace
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string) => (text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n"));
+
+// Line-based diff: trims the common prefix/suffix, then runs a plain LCS on
+// what's left. Good enough for the file sizes the agent works with.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const out: DiffLine[] = [];
+  let oldNo = 1;
+  let newNo = 1;
+  const context = (text: string) => out.push({ type: "context", text, oldNumber: oldNo++, newNumber: newNo++ });
+  const remove = (text: string) => out.push({ type: "remove", text, oldNumber: oldNo++ });
+  const add = (text: string) => out.push({ type: "add", text, newNumber: newNo++ });
+
+  for (let i = 0; i < start; i++) context(a[i]);
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    midA.forEach(remove);
+    midB.forEach(add);
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        context(midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        remove(midA[i++]);
+      } else {
+        add(midB[j++]);
+      }
+    }
+    while (i < n) remove(midA[i++]);
+    while (j < m) add(midB[j++]);
+  }
+
+  for (let i = endA; i < a.length; i++) context(a[i]);
+
+  return out;
+}
+
+// Pairs removals with the additions that follow them so a side-by-side view
+// lines up replaced lines on the same row.
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === "context") {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === "remove") removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === "add") added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+}
+
+// Collapses long unchanged runs, keeping `context` lines around each change.
+export function collapseContext(lines: DiffLine[], context = 3): DiffItem[] {
+  const keep = new Array(lines.length).fill(false);
+  lines.forEach((line, idx) => {
+    if (line.type === "context") return;
+    for (let k = Math.max(0, idx - context); k <= Math.min(lines.length - 1, idx + context); k++) keep[k] = true;
+  });
+
+  const out: DiffItem[] = [];
+  let skipped = 0;
+  lines.forEach((line, idx) => {
+    if (keep[idx]) {
+      if (skipped > 0) out.push({ type: "skip", count: skipped });
+      skipped = 0;
+      out.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) out.push({ type: "skip", count: skipped });
+  return out;
+}
+
+// Splits a list of lines and markers into side-by-side rows, markers kept in place
+export function toSplitItems(items: DiffItem[]): (SplitRow | DiffMarker)[] {
+  const out: (SplitRow | DiffMarker)[] = [];
+  let chunk: DiffLine[] = [];
+  for (const item of items) {
+    if (item.type === "skip" || item.type === "hunk") {
+      out.push(...toSplitRows(chunk), item);
+      chunk = [];
+    } else {
+      chunk.push(item);
+    }
+  }
+  out.push(...toSplitRows(chunk));
+  return out;
+}
+
+// Reads the hunks of a unified diff (GitHub's per-file `patch`) into numbered
+// lines, with a marker where each hunk starts.
+export function parsePatch(patch: string): DiffItem[] {
+  const out: DiffItem[] = [];
+  let oldNo = 0;
+  let newNo = 0;
+  for (const raw of patch.replace(/\r\n/g, "\n").split("\n")) {
+    const hunk = raw.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldNo = Number(hunk[1]);
+      newNo = Number(hunk[2]);
+      out.push({ type: "hunk", header: raw });
+    } else if (raw.startsWith("+")) {
+      out.push({ type: "add", text: raw.slice(1), newNumber: newNo++ });
+    } else if (raw.startsWith("-")) {
+      out.push({ type: "remove", text: raw.slice(1), oldNumber: oldNo++ });
+    } else if (raw.startsWith(" ")) {
+      out.push({ type: "context", text: raw.slice(1), oldNumber: oldNo++, newNumber: newNo++ });
+    }
+    // Anything else is "\ No newline at end of file" or the trailing empty line
+  }
+  return out;
+}
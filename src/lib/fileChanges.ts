@@ -0,0 +1,4 @@
+// files_changed entries are written by the edge functions; read them the same way here
+export {
+  parseChangeEntry, formatChangeEntry, type FileAction,
+} from "../../supabase/functions/_shared/changes";
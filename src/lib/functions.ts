@@ -0,0 +1,18 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// POSTs to one of our edge functions as the signed-in user. The functions
+// resolve the caller (and their GitHub token) from this JWT, so nothing
+// sensitive has to travel in the body. Returns the raw response so callers
+// can read either JSON or an event stream.
+export async function callFunction(name: string, body: unknown): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+  });
+}
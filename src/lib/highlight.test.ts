@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { languageFor, highlightLine } from "./highlight";
+
+describe("languageFor", () => {
+  it("maps extensions to grammars", () => {
+    expect(languageFor("src/App.tsx")).toBe("js");
+    expect(languageFor("supabase/migrations/001.sql")).toBe("sql");
+    expect(languageFor("README.md")).toBeNull();
+  });
+});
+
+describe("highlightLine", () => {
+  it("splits a line into tokens that add back up to it", () => {
+    const line = `const name = "jtc"; // 42 things`;
+    const tokens = highlightLine(line, "js");
+    expect(tokens.map((t) => t.text).join("")).toBe(line);
+    expect(tokens).toEqual([
+      { kind: "keyword", text: "const" },
+      { kind: "plain", text: " name = " },
+      { kind: "string", text: '"jtc"' },
+      { kind: "plain", text: "; " },
+      { kind: "comment", text: "// 42 things" },
+    ]);
+  });
+
+  it("handles escapes, numbers and case-insensitive SQL keywords", () => {
+    expect(highlightLine(`'it\\'s' 3.5`, "js").map((t) => t.kind)).toEqual(["string", "plain", "number"]);
+    expect(highlightLine("SELECT id FROM t -- x", "sql")[0]).toEqual({ kind: "keyword", text: "SELECT" });
+  });
+
+  it("leaves unknown languages alone", () => {
+    expect(highlightLine("# Title", null)).toEqual([{ kind: "plain", text: "# Title" }]);
+  });
+});
@@ -0,0 +1,125 @@
+// Small per-line syntax highlighter for diffs: keywords, strings, comments and
+// numbers. Works one line at a time (diffs are shown as lines), so a block
+// comment or string spanning several lines is only colored on its first line.
+
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Grammar {
+  keywords: string[];
+  // Regex sources for a comment that runs to the end of the line (or closes on it)
+  comments: string[];
+  quotes: string[];
+}
+
+const JS: Grammar = {
+  keywords: [
+    "as", "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do",
+    "else", "enum", "export", "extends", "false", "finally", "for", "from", "function", "if", "implements",
+    "import", "in", "instanceof", "interface", "let", "new", "null", "of", "private", "protected", "public",
+    "readonly", "return", "static", "super", "switch", "this", "throw", "true", "try", "type", "typeof",
+    "undefined", "var", "void", "while", "yield",
+  ],
+  comments: ["\\/\\/.*$", "\\/\\*.*?(?:\\*\\/|$)"],
+  quotes: ['"', "'", "`"],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: JS,
+  json: { keywords: ["true", "false", "null"], comments: [], quotes: ['"'] },
+  css: { keywords: ["important", "media", "import", "keyframes", "from", "to"], comments: ["\\/\\*.*?(?:\\*\\/|$)"], quotes: ['"', "'"] },
+  py: {
+    keywords: [
+      "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else", "except",
+      "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None", "nonlocal", "not",
+      "or", "pass", "raise", "return", "True", "try", "while", "with", "yield",
+    ],
+    comments: ["#.*$"],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: [
+      "add", "alter", "and", "as", "by", "column", "create", "default", "delete", "drop", "exists", "from", "function",
+      "grant", "if", "in", "index", "insert", "into", "is", "join", "key", "not", "null", "on", "or", "order",
+      "policy", "primary", "references", "replace", "returns", "select", "set", "table", "to", "update", "values", "where",
+    ],
+    comments: ["--.*$"],
+    quotes: ["'"],
+  },
+  sh: {
+    keywords: ["case", "do", "done", "elif", "else", "esac", "export", "fi", "for", "function", "if", "in", "local", "then", "while"],
+    comments: ["#.*$"],
+    quotes: ['"', "'"],
+  },
+  yaml: { keywords: ["true", "false", "null", "yes", "no"], comments: ["#.*$"], quotes: ['"', "'"] },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  js: "js", jsx: "js", mjs: "js", cjs: "js", ts: "js", tsx: "js", vue: "js", svelte: "js",
+  json: "json",
+  css: "css", scss: "css",
+  py: "py",
+  sql: "sql",
+  sh: "sh",
+  yml: "yaml", yaml: "yaml", toml: "yaml",
+};
+
+export function languageFor(path: string): string | null {
+  const ext = path.split("/").pop()!.split(".").pop()!.toLowerCase();
+  return EXTENSIONS[ext] ?? null;
+}
+
+const patterns = new Map<string, RegExp>();
+
+// comment | string | number | word, in that order of precedence
+const patternFor = (language: string) => {
+  if (!patterns.has(language)) {
+    const grammar = GRAMMARS[language];
+    const strings = grammar.quotes.map((q) => `${q}(?:[^${q}\\\\]|\\\\.)*(?:${q}|$)`);
+    const parts = [
+      grammar.comments.length ? `(${grammar.comments.join("|")})` : "(?!)",
+      `(${strings.join("|")})`,
+      "(\\b\\d[\\w.]*)",
+      "([A-Za-z_$][\\w$]*)",
+    ];
+    patterns.set(language, new RegExp(parts.join("|"), "g"));
+  }
+  return patterns.get(language)!;
+};
+
+export function highlightLine(text: string, language: string | null): Token[] {
+  if (!language || !GRAMMARS[language]) return [{ kind: "plain", text }];
+  const grammar = GRAMMARS[language];
+  const pattern = patternFor(language);
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += value;
+    else tokens.push({ kind, text: value });
+  };
+
+  let index = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0] === "") {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > index) push("plain", text.slice(index, match.index));
+    const [, comment, string, number, word] = match;
+    if (comment) push("comment", comment);
+    else if (string) push("string", string);
+    else if (number) push("number", number);
+    else {
+      const keyword = grammar.keywords.includes(language === "sql" ? word.toLowerCase() : word);
+      push(keyword ? "keyword" : "plain", word);
+    }
+    index = match.index + match[0].length;
+  }
+  if (index < text.length) push("plain", text.slice(index));
+  return tokens;
+}
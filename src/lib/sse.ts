@@ -0,0 +1,41 @@
+export interface SseEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+// Reads a `text/event-stream` response body, yielding each event with its
+// JSON payload parsed. Events without an `event:` field come out as "message".
+export async function* readSse<T = unknown>(response: Response): AsyncGenerator<SseEvent<T>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (block: string): SseEvent<T> | null => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    if (data.length === 0) return null;
+    try {
+      return { event, data: JSON.parse(data.join("\n")) };
+    } catch {
+      return { event, data: data.join("\n") as T };
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let idx;
+    while ((idx = buffer.indexOf("\n\n")) !== -1) {
+      const parsed = parse(buffer.slice(0, idx));
+      buffer = buffer.slice(idx + 2);
+      if (parsed) yield parsed;
+    }
+  }
+  const rest = parse(buffer.trim());
+  if (rest) yield rest;
+}
@@ -0,0 +1,68 @@
+export interface UsageTotals {
+  prompt_tokens: number;
+  completion_tokens: number;
+  // null when some of the calls used a model without a known price
+  cost_usd: number | null;
+}
+
+interface UsageRow {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost_usd: number | null;
+}
+
+export function sumUsage(rows: UsageRow[]): UsageTotals {
+  return {
+    prompt_tokens: rows.reduce((sum, r) => sum + (r.prompt_tokens || 0), 0),
+    completion_tokens: rows.reduce((sum, r) => sum + (r.completion_tokens || 0), 0),
+    cost_usd: rows.some((r) => r.cost_usd === null)
+      ? null
+      : rows.reduce((sum, r) => sum + Number(r.cost_usd), 0),
+  };
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+// Small amounts need more decimals to mean anything
+export function formatCost(usd: number | null): string {
+  if (usd === null) return "custo desconhecido";
+  return `US$ ${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+}
+
+// `budget` of a code-agent error with code "budget_exhausted"
+export interface ExhaustedBudget {
+  kind: "cost" | "tokens" | "requests";
+  limit: number;
+  used: number;
+  resets_at: string;
+  // false when the account cap was hit: only an admin can raise it
+  adjustable?: boolean;
+}
+
+export function describeBudget(budget: ExhaustedBudget): { title: string; detail: string } {
+  if (budget.kind === "requests") {
+    return {
+      title: `Limite de ${budget.limit} pedidos por hora atingido.`,
+      detail: budget.adjustable === false
+        ? "Tente novamente em até uma hora (limite da conta)."
+        : "Tente novamente em até uma hora ou aumente o limite.",
+    };
+  }
+  const renews = `Renova em ${new Date(budget.resets_at).toLocaleDateString("pt-BR")}.${
+    budget.adjustable === false ? " Esse é o limite da sua conta." : ""
+  }`;
+  if (budget.kind === "tokens") {
+    return {
+      title: `Limite mensal de ${formatTokens(budget.limit)} tokens atingido (${formatTokens(budget.used)} usados).`,
+      detail: renews,
+    };
+  }
+  return {
+    title: `Limite mensal de ${formatCost(budget.limit)} atingido (${formatCost(budget.used)} usados).`,
+    detail: renews,
+  };
+}
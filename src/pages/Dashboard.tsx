@@ -28,7 +28,7 @@ const Dashboard = () => {
   const fetchActiveRepo = async () => {
     const { data } = await supabase
       .from("repositories")
-      .select("*")
+      .select("id, repo_url, repo_owner, repo_name, github_token_hint, is_active, commit_mode, review_first, allow_globs, deny_globs, created_at")
       .eq("user_id", user!.id)
       .eq("is_active", true)
       .order("created_at", { ascending: false })
@@ -83,7 +83,7 @@ const Dashboard = () => {
 
       <main className="flex-1 flex overflow-hidden">
         {activeRepo ? (
-          <ChatInterface repo={activeRepo} onDisconnect={handleDisconnect} userId={user!.id} />
+          <ChatInterface repo={activeRepo} onDisconnect={handleDisconnect} />
         ) : (
           <ConnectRepo userId={user!.id} onConnected={fetchActiveRepo} />
         )}
@@ -10,10 +10,67 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { User, Key, Lock, Save, Loader2, Upload, Eye, EyeOff, ArrowLeft } from "lucide-react";
+import { User, Key, Lock, Save, Loader2, Upload, Eye, EyeOff, ArrowLeft, Cpu, BarChart3, Gauge } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
+import {
+  AI_PROVIDERS, DEFAULT_PROVIDER_ID, MODEL_ROLES, baseUrlProblem, getProvider, validateModelSettings,
+  type ModelRole, type ModelSettings,
+} from "@/lib/aiProviders";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { sumUsage, formatCost, formatTokens } from "@/lib/usage";
+
+// Model settings as typed in the form; empty fields mean "use the default"
+type RoleForm = Record<ModelRole, { model: string; temperature: string; max_tokens: string }>;
+
+const emptyRoleForm = (): RoleForm => ({
+  intent: { model: "", temperature: "", max_tokens: "" },
+  chat: { model: "", temperature: "", max_tokens: "" },
+  code: { model: "", temperature: "", max_tokens: "" },
+});
+
+const toRoleForm = (settings: ModelSettings): RoleForm => {
+  const form = emptyRoleForm();
+  for (const role of MODEL_ROLES) {
+    const s = settings[role.id] || {};
+    form[role.id] = {
+      model: s.model || "",
+      temperature: s.temperature?.toString() ?? "",
+      max_tokens: s.max_tokens?.toString() ?? "",
+    };
+  }
+  return form;
+};
+
+const fromRoleForm = (form: RoleForm): ModelSettings => {
+  const settings: ModelSettings = {};
+  for (const role of MODEL_ROLES) {
+    const f = form[role.id];
+    const entry = {
+      ...(f.model.trim() ? { model: f.model.trim() } : {}),
+      ...(f.temperature.trim() ? { temperature: Number(f.temperature) } : {}),
+      ...(f.max_tokens.trim() ? { max_tokens: Number(f.max_tokens) } : {}),
+    };
+    if (Object.keys(entry).length > 0) settings[role.id] = entry;
+  }
+  return settings;
+};
+
+// Spending limits as typed in the form; empty means no limit
+type LimitsForm = Record<"monthly_budget_usd" | "monthly_token_limit" | "hourly_request_limit", string>;
+
+const LIMIT_FIELDS: { id: keyof LimitsForm; label: string; step: number }[] = [
+  { id: "monthly_budget_usd", label: "Orçamento mensal (US$)", step: 0.01 },
+  { id: "monthly_token_limit", label: "Tokens por mês", step: 1 },
+  { id: "hourly_request_limit", label: "Pedidos por hora", step: 1 },
+];
+
+const fromLimitsForm = (form: LimitsForm) => {
+  const limits = {} as Record<keyof LimitsForm, number | null>;
+  for (const { id } of LIMIT_FIELDS) limits[id] = form[id].trim() ? Number(form[id]) : null;
+  return limits;
+};
 
 const Profile = () => {
   const { user, loading: authLoading } = useAuth();
@@ -22,8 +79,14 @@ const Profile = () => {
 
   const [displayName, setDisplayName] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
-  const [aiProvider, setAiProvider] = useState("gemini");
+  const [aiProvider, setAiProvider] = useState(DEFAULT_PROVIDER_ID);
+  const [aiBaseUrl, setAiBaseUrl] = useState("");
+  const [roleForm, setRoleForm] = useState<RoleForm>(emptyRoleForm);
+  const [limits, setLimits] = useState<LimitsForm>({ monthly_budget_usd: "", monthly_token_limit: "", hourly_request_limit: "" });
+  const [accountLimits, setAccountLimits] = useState<Tables<"account_limits"> | null>(null);
+  const [monthlyUsage, setMonthlyUsage] = useState<Tables<"ai_usage_monthly">[]>([]);
   const [aiApiKey, setAiApiKey] = useState("");
+  const [aiApiKeyHint, setAiApiKeyHint] = useState<string | null>(null);
   const [showApiKey, setShowApiKey] = useState(false);
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -36,22 +99,45 @@ const Profile = () => {
       navigate("/auth");
     } else if (user) {
       loadProfile(user.id);
+      loadMonthlyUsage();
     }
   }, [user, authLoading, navigate]);
 
   const loadProfile = async (userId: string) => {
     const { data } = await supabase
       .from("profiles")
-      .select("*")
+      .select("display_name, avatar_url, ai_provider, ai_api_key_hint, ai_base_url, ai_model_settings, monthly_budget_usd, monthly_token_limit, hourly_request_limit")
       .eq("user_id", userId)
       .maybeSingle();
 
     if (data) {
       setDisplayName(data.display_name || "");
       setAvatarUrl(data.avatar_url || "");
-      setAiProvider(data.ai_provider || "gemini");
-      setAiApiKey(data.ai_api_key || "");
+      setAiProvider(data.ai_provider || DEFAULT_PROVIDER_ID);
+      setAiBaseUrl(data.ai_base_url || "");
+      setRoleForm(toRoleForm((data.ai_model_settings || {}) as ModelSettings));
+      setLimits({
+        monthly_budget_usd: data.monthly_budget_usd?.toString() ?? "",
+        monthly_token_limit: data.monthly_token_limit?.toString() ?? "",
+        hourly_request_limit: data.hourly_request_limit?.toString() ?? "",
+      });
+      setAiApiKeyHint(data.ai_api_key_hint);
+      setAiApiKey("");
     }
+
+    const { data: account } = await supabase.from("account_limits").select("*").eq("user_id", userId).maybeSingle();
+    setAccountLimits(account);
+  };
+
+  const loadMonthlyUsage = async () => {
+    const now = new Date();
+    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
+    const { data } = await supabase
+      .from("ai_usage_monthly")
+      .select("*")
+      .eq("month", month)
+      .order("cost_usd", { ascending: false, nullsFirst: false });
+    setMonthlyUsage(data || []);
   };
 
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -89,19 +175,43 @@ const Profile = () => {
 
   const handleSaveProfile = async () => {
     if (!user) return;
+
+    const modelSettings = fromRoleForm(roleForm);
+    const errors = validateModelSettings(getProvider(aiProvider), modelSettings);
+    if (errors.length > 0) {
+      toast({ title: "Configuração de modelos inválida", description: errors.join("\n"), variant: "destructive" });
+      return;
+    }
+    const urlProblem = getProvider(aiProvider).baseUrl === "required" && aiBaseUrl.trim() ? baseUrlProblem(aiBaseUrl) : null;
+    if (urlProblem) {
+      toast({ title: "URL do servidor inválida", description: urlProblem, variant: "destructive" });
+      return;
+    }
+    const limitValues = fromLimitsForm(limits);
+    if (Object.values(limitValues).some((v) => v !== null && !(v >= 0))) {
+      toast({ title: "Limites inválidos", description: "Use números positivos ou deixe em branco para não limitar.", variant: "destructive" });
+      return;
+    }
+
     setLoading(true);
     try {
+      // The stored key is never sent back, so it's only replaced when a new one is typed
+      const newKey = aiApiKey.trim();
       const { error } = await supabase
         .from("profiles")
         .update({
           display_name: displayName.trim(),
           avatar_url: avatarUrl,
           ai_provider: aiProvider,
-          ai_api_key: aiApiKey.trim(),
+          ai_base_url: aiBaseUrl.trim() || null,
+          ai_model_settings: modelSettings as unknown as Json,
+          ...limitValues,
+          ...(newKey ? { ai_api_key: newKey } : {}),
         })
         .eq("user_id", user.id);
 
       if (error) throw error;
+      if (newKey) await loadProfile(user.id);
       toast({ title: "Perfil salvo!" });
     } catch (err: any) {
       toast({ title: "Erro", description: err.message, variant: "destructive" });
@@ -134,6 +244,20 @@ const Profile = () => {
     }
   };
 
+  // Model names are provider-specific, so they don't survive a provider switch
+  const changeProvider = (id: string) => {
+    setAiProvider(id);
+    setRoleForm((prev) => {
+      const next = { ...prev };
+      for (const role of MODEL_ROLES) next[role.id] = { ...prev[role.id], model: "" };
+      return next;
+    });
+  };
+
+  const updateRole = (role: ModelRole, field: keyof RoleForm[ModelRole], value: string) =>
+    setRoleForm((prev) => ({ ...prev, [role]: { ...prev[role], [field]: value } }));
+
+  const provider = getProvider(aiProvider);
   const initials = displayName ? displayName.slice(0, 2).toUpperCase() : "US";
 
   if (authLoading || !user) {
@@ -211,25 +335,44 @@ const Profile = () => {
             <div className="space-y-3">
               <div>
                 <label className="text-sm font-mono text-muted-foreground mb-1 block">Provedor</label>
-                <Select value={aiProvider} onValueChange={setAiProvider}>
+                <Select value={aiProvider} onValueChange={changeProvider}>
                   <SelectTrigger className="bg-muted border-border font-mono text-sm">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="gemini">Google Gemini</SelectItem>
-                    <SelectItem value="openai">OpenAI (ChatGPT)</SelectItem>
+                    {AI_PROVIDERS.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {provider.baseUrl === "required" && (
+                <div>
+                  <label className="text-sm font-mono text-muted-foreground mb-1 block">URL do servidor</label>
+                  <Input
+                    value={aiBaseUrl}
+                    onChange={(e) => setAiBaseUrl(e.target.value)}
+                    placeholder={provider.baseUrlPlaceholder}
+                    className="bg-muted border-border font-mono text-sm"
+                  />
+                </div>
+              )}
+
               <div>
-                <label className="text-sm font-mono text-muted-foreground mb-1 block">API Key</label>
+                <label className="text-sm font-mono text-muted-foreground mb-1 block">
+                  API Key{!provider.requiresKey && " (opcional)"}
+                </label>
                 <div className="relative">
                   <Input
                     type={showApiKey ? "text" : "password"}
                     value={aiApiKey}
                     onChange={(e) => setAiApiKey(e.target.value)}
-                    placeholder={aiProvider === "gemini" ? "AIzaSy..." : "sk-..."}
+                    placeholder={
+                      aiApiKeyHint
+                        ? `${aiApiKeyHint} (digite para substituir)`
+                        : provider.keyPlaceholder
+                    }
                     className="bg-muted border-border font-mono text-sm pr-10"
                   />
                   <button
@@ -241,14 +384,104 @@ const Profile = () => {
                   </button>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1 font-mono">
-                  {aiProvider === "gemini"
-                    ? "Obtenha em aistudio.google.com"
-                    : "Obtenha em platform.openai.com"}
+                  {provider.help}
                 </p>
+                {aiApiKeyHint && (
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    Chave salva (criptografada): {aiApiKeyHint}. Deixe em branco para manter.
+                  </p>
+                )}
               </div>
             </div>
           </div>
 
+          {/* Models per role */}
+          <div className="border-t border-border pt-4">
+            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-1">
+              <Cpu className="h-3 w-3" /> Modelos
+            </p>
+            <datalist id="model-options">
+              {provider.modelOptions.map((m) => (
+                <option key={m} value={m} />
+              ))}
+            </datalist>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[4.5rem_1fr_4rem_5rem] gap-2 text-xs font-mono text-muted-foreground">
+                <span />
+                <span>Modelo</span>
+                <span>Temp.</span>
+                <span>Máx. tokens</span>
+              </div>
+              {MODEL_ROLES.map((role) => (
+                <div key={role.id} className="grid grid-cols-[4.5rem_1fr_4rem_5rem] gap-2 items-center">
+                  <span className="text-xs font-mono text-muted-foreground">{role.label}</span>
+                  <Input
+                    list="model-options"
+                    value={roleForm[role.id].model}
+                    onChange={(e) => updateRole(role.id, "model", e.target.value)}
+                    placeholder={provider.models[role.id]}
+                    className="bg-muted border-border font-mono text-xs h-8"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={provider.maxTemperature}
+                    step={0.05}
+                    value={roleForm[role.id].temperature}
+                    onChange={(e) => updateRole(role.id, "temperature", e.target.value)}
+                    placeholder={role.temperature.toString()}
+                    className="bg-muted border-border font-mono text-xs h-8 px-2"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={roleForm[role.id].max_tokens}
+                    onChange={(e) => updateRole(role.id, "max_tokens", e.target.value)}
+                    placeholder={role.max_tokens?.toString() ?? "auto"}
+                    className="bg-muted border-border font-mono text-xs h-8 px-2"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2 font-mono">
+              Deixe em branco para usar o padrão.
+              {provider.freeformModels ? "" : ` Modelos disponíveis: ${provider.modelOptions.join(", ")}.`}
+            </p>
+          </div>
+
+          {/* Spending limits */}
+          <div className="border-t border-border pt-4">
+            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-1">
+              <Gauge className="h-3 w-3" /> Limites
+            </p>
+            <div className="space-y-2">
+              {LIMIT_FIELDS.map((field) => (
+                <div key={field.id} className="grid grid-cols-[1fr_8rem] gap-2 items-center">
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {field.label}
+                    {accountLimits && accountLimits[field.id] !== null && (
+                      <span className="text-muted-foreground/60"> (máx. da conta: {accountLimits[field.id]})</span>
+                    )}
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={field.step}
+                    value={limits[field.id]}
+                    onChange={(e) => setLimits((prev) => ({ ...prev, [field.id]: e.target.value }))}
+                    placeholder="sem limite"
+                    className="bg-muted border-border font-mono text-xs h-8 px-2"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2 font-mono">
+              O agente para de responder quando um limite é atingido. Deixe em branco para não limitar
+              {accountLimits && LIMIT_FIELDS.some((f) => accountLimits[f.id] !== null) ? " além do máximo da conta." : "."}
+            </p>
+          </div>
+
           <Button
             onClick={handleSaveProfile}
             disabled={loading}
@@ -258,6 +491,38 @@ const Profile = () => {
             Salvar Perfil
           </Button>
 
+          {/* Usage this month */}
+          <div className="border-t border-border pt-4">
+            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-1">
+              <BarChart3 className="h-3 w-3" /> Uso este mês
+            </p>
+            {monthlyUsage.length === 0 ? (
+              <p className="text-xs text-muted-foreground font-mono">Nenhuma chamada de IA este mês.</p>
+            ) : (
+              <div className="space-y-1">
+                {(() => {
+                  const total = sumUsage(monthlyUsage);
+                  return (
+                    <p className="text-sm font-mono text-foreground">
+                      {formatCost(total.cost_usd)}{" "}
+                      <span className="text-xs text-muted-foreground">
+                        · {formatTokens(total.prompt_tokens + total.completion_tokens)} tokens
+                      </span>
+                    </p>
+                  );
+                })()}
+                {monthlyUsage.map((row) => (
+                  <div key={`${row.provider}/${row.model}`} className="flex justify-between text-xs font-mono text-muted-foreground">
+                    <span className="truncate">{row.model} ({row.calls})</span>
+                    <span className="flex-shrink-0 ml-2">
+                      {formatTokens((row.prompt_tokens || 0) + (row.completion_tokens || 0))} · {formatCost(row.cost_usd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Change Password */}
           <div className="border-t border-border pt-4">
             <p className="text-xs font-mono text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-1">
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { bearerToken, authenticate, assertSameUser, assertOwner, type AuthClient } from "./auth.ts";
+
+const request = (authorization?: string) =>
+  new Request("https://example.com/functions/v1/code-agent", {
+    method: "POST",
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+
+const clientFor = (userId: string | null): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async () => ({
+      data: { user: userId ? { id: userId } : null },
+      error: userId ? null : new Error("invalid JWT"),
+    })),
+  },
+});
+
+describe("bearerToken", () => {
+  it("extracts the token", () => {
+    expect(bearerToken(request("Bearer abc.def.ghi"))).toBe("abc.def.ghi");
+    expect(bearerToken(request("bearer abc"))).toBe("abc");
+  });
+
+  it("returns null without a bearer token", () => {
+    expect(bearerToken(request())).toBeNull();
+    expect(bearerToken(request("Basic dXNlcjpwYXNz"))).toBeNull();
+    expect(bearerToken(request("Bearer "))).toBeNull();
+  });
+});
+
+describe("authenticate", () => {
+  it("returns the user id from the JWT", async () => {
+    const client = clientFor("user-1");
+    await expect(authenticate(request("Bearer jwt"), client)).resolves.toBe("user-1");
+    expect(client.auth.getUser).toHaveBeenCalledWith("jwt");
+  });
+
+  it("rejects requests without a token before calling Supabase", async () => {
+    const client = clientFor("user-1");
+    await expect(authenticate(request(), client)).rejects.toMatchObject({ status: 401 });
+    expect(client.auth.getUser).not.toHaveBeenCalled();
+  });
+
+  it("rejects tokens Supabase doesn't accept", async () => {
+    await expect(authenticate(request("Bearer expired"), clientFor(null))).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+describe("assertSameUser", () => {
+  it("accepts a missing or matching user_id", () => {
+    expect(() => assertSameUser(undefined, "user-1")).not.toThrow();
+    expect(() => assertSameUser(null, "user-1")).not.toThrow();
+    expect(() => assertSameUser("user-1", "user-1")).not.toThrow();
+  });
+
+  it("rejects a user_id that isn't the caller", () => {
+    expect(() => assertSameUser("user-2", "user-1")).toThrow(expect.objectContaining({ status: 403 }));
+  });
+});
+
+describe("assertOwner", () => {
+  it("returns rows owned by the caller", () => {
+    const row = { id: "repo-1", user_id: "user-1" };
+    expect(assertOwner(row, "user-1", "Repositório")).toBe(row);
+  });
+
+  it("404s on missing rows and 403s on someone else's", () => {
+    expect(() => assertOwner(null, "user-1", "Repositório")).toThrow(expect.objectContaining({ status: 404 }));
+    expect(() => assertOwner({ user_id: "user-2" }, "user-1", "Repositório")).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+  });
+});
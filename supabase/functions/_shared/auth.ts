@@ -0,0 +1,42 @@
+// Caller identity for the edge functions. The user always comes from the
+// Supabase JWT in the Authorization header, never from the request body.
+// Kept free of URL imports so it can be unit tested under Node.
+
+export interface AuthError {
+  status: number;
+  message: string;
+}
+
+// Just the part of the Supabase client this module needs
+export interface AuthClient {
+  auth: {
+    getUser(jwt: string): Promise<{ data: { user: { id: string } | null }; error: unknown }>;
+  };
+}
+
+export function bearerToken(req: Request): string | null {
+  const match = req.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export async function authenticate(req: Request, client: AuthClient): Promise<string> {
+  const jwt = bearerToken(req);
+  if (!jwt) throw { status: 401, message: "Não autenticado." } as AuthError;
+
+  const { data, error } = await client.auth.getUser(jwt);
+  if (error || !data.user) throw { status: 401, message: "Sessão inválida, faça login novamente." } as AuthError;
+  return data.user.id;
+}
+
+// Old clients still send `user_id`; it's ignored unless it disagrees with the token
+export function assertSameUser(claimedUserId: unknown, userId: string) {
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== userId) {
+    throw { status: 403, message: "O usuário da requisição não corresponde à sessão." } as AuthError;
+  }
+}
+
+export function assertOwner<T extends { user_id: string }>(row: T | null, userId: string, what: string): T {
+  if (!row) throw { status: 404, message: `${what} não encontrado.` } as AuthError;
+  if (row.user_id !== userId) throw { status: 403, message: `Sem permissão para acessar este ${what.toLowerCase()}.` } as AuthError;
+  return row;
+}
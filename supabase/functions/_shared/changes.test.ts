@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { changeEntry, parseChangeEntry, formatChangeEntry, conflictingPaths } from "./changes.ts";
+
+describe("changeEntry", () => {
+  it("round-trips every action", () => {
+    const changes = [
+      { action: "create" as const, path: "src/new.ts" },
+      { action: "update" as const, path: "src/app.ts" },
+      { action: "delete" as const, path: "src/old.ts" },
+      { action: "rename" as const, path: "src/lib/util.ts", previous_path: "src/util.ts" },
+    ];
+    const entries = changes.map(changeEntry);
+    expect(entries).toEqual(["A src/new.ts", "M src/app.ts", "D src/old.ts", "R src/util.ts -> src/lib/util.ts"]);
+    expect(entries.map(parseChangeEntry)).toEqual(changes);
+  });
+
+  it("reads bare paths from older rows as updates", () => {
+    expect(parseChangeEntry("src/App.tsx")).toEqual({ action: "update", path: "src/App.tsx" });
+    expect(formatChangeEntry("src/App.tsx")).toBe("src/App.tsx");
+  });
+
+  it("formats entries for chat text", () => {
+    expect(formatChangeEntry("A src/new.ts")).toBe("src/new.ts (novo)");
+    expect(formatChangeEntry("D src/old.ts")).toBe("src/old.ts (apagado)");
+    expect(formatChangeEntry("R src/util.ts -> src/lib/util.ts")).toBe("src/util.ts → src/lib/util.ts");
+  });
+});
+
+describe("conflictingPaths", () => {
+  const base = new Map([["src/a.ts", "a1"], ["src/b.ts", "b1"], ["src/c.ts", "c1"]]);
+
+  it("is empty when nothing the changes touch has moved", () => {
+    const head = new Map([...base, ["README.md", "r1"]]);
+    head.set("src/c.ts", "c2");
+    const changes = [
+      { action: "update" as const, path: "src/a.ts", content: "" },
+      { action: "rename" as const, path: "src/lib/b.ts", previous_path: "src/b.ts", content: "" },
+    ];
+    expect(conflictingPaths(changes, base, head)).toEqual([]);
+  });
+
+  it("reports files edited, deleted or created underneath", () => {
+    const head = new Map([["src/a.ts", "a2"], ["src/c.ts", "c1"], ["src/new.ts", "n1"]]);
+    const changes = [
+      { action: "update" as const, path: "src/a.ts", content: "" },
+      { action: "delete" as const, path: "src/b.ts" },
+      { action: "create" as const, path: "src/new.ts", content: "" },
+      { action: "rename" as const, path: "src/d.ts", previous_path: "src/c.ts", content: "" },
+    ];
+    expect(conflictingPaths(changes, base, head)).toEqual(["src/a.ts", "src/b.ts", "src/new.ts"]);
+  });
+});
@@ -0,0 +1,55 @@
+// A change to one file, as the agent stages it and the commit step applies it.
+// Kept free of URL imports: the chat UI reads files_changed entries with it too.
+
+export type FileAction = "create" | "update" | "delete" | "rename";
+
+export interface FileChange {
+  action: FileAction;
+  // The new path, for renames
+  path: string;
+  // Renames only
+  previous_path?: string;
+  // Full new content; absent for deletes and for renames that keep the file as it is
+  content?: string;
+}
+
+// files_changed entries, in `git diff --name-status` style: "A path",
+// "M path", "D path", "R old -> new". Older rows hold bare paths.
+const CODES: Record<FileAction, string> = { create: "A", update: "M", delete: "D", rename: "R" };
+
+export function changeEntry(change: Pick<FileChange, "action" | "path" | "previous_path">): string {
+  if (change.action === "rename") return `R ${change.previous_path} -> ${change.path}`;
+  return `${CODES[change.action]} ${change.path}`;
+}
+
+export function parseChangeEntry(entry: string): { action: FileAction; path: string; previous_path?: string } {
+  const match = entry.match(/^([AMDR]) (.+)$/);
+  if (!match) return { action: "update", path: entry };
+  const action = (Object.keys(CODES) as FileAction[]).find((a) => CODES[a] === match[1])!;
+  if (action !== "rename") return { action, path: match[2] };
+  const [previous_path, path] = match[2].split(" -> ");
+  return { action, path, previous_path };
+}
+
+// For chat text: "src/a.ts (novo)", "src/b.ts (apagado)", "src/c.ts → src/lib/c.ts"
+export function formatChangeEntry(entry: string): string {
+  const { action, path, previous_path } = parseChangeEntry(entry);
+  if (action === "create") return `${path} (novo)`;
+  if (action === "delete") return `${path} (apagado)`;
+  if (action === "rename") return `${previous_path} → ${path}`;
+  return path;
+}
+
+// Files the changes touch that are no longer as they were when the changes
+// were made: edited, deleted or renamed files whose blob moved, and new paths
+// that someone else created meanwhile. `base` and `head` map path -> blob sha.
+export function conflictingPaths(changes: FileChange[], base: Map<string, string>, head: Map<string, string>): string[] {
+  const conflicts = new Set<string>();
+  for (const change of changes) {
+    const source = change.previous_path ?? change.path;
+    if (change.action !== "create" && head.get(source) !== base.get(source)) conflicts.add(source);
+    const adds = change.action === "create" || change.action === "rename";
+    if (adds && head.has(change.path) && !base.has(change.path)) conflicts.add(change.path);
+  }
+  return [...conflicts];
+}
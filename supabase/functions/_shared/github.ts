@@ -0,0 +1,344 @@
+import { changeEntry, formatChangeEntry, conflictingPaths, type FileChange } from "./changes.ts";
+import { planReplays, treeBlobs } from "./replay.ts";
+
+// The commit the changes were made against, and its path -> blob sha map
+export interface BaseSnapshot {
+  commitSha: string;
+  blobShas: Map<string, string>;
+}
+
+export interface ConflictError {
+  status: 409;
+  code: "conflict";
+  message: string;
+  conflicts: string[];
+}
+
+export async function getDefaultBranch(owner: string, name: string, token: string): Promise<string> {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) throw new Error("Não consegui acessar o repositório. Verifique se o token é válido.");
+  const data = await res.json();
+  return data.default_branch || "main";
+}
+
+export async function getRepoTree(owner: string, name: string, branch: string, token: string) {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/git/trees/${branch}?recursive=1`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) throw new Error(`Não consegui ler a árvore do repositório na branch ${branch}`);
+  return res.json();
+}
+
+// `ref` pins the read to a commit; without it GitHub serves the default branch
+export async function getFileContent(owner: string, name: string, path: string, token: string, ref?: string) {
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : "";
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/contents/${encodeURIComponent(path)}${query}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  if (data.encoding === "base64") {
+    try {
+      const raw = atob(data.content.replace(/\n/g, ""));
+      return { content: decodeURIComponent(escape(raw)), sha: data.sha, path: data.path };
+    } catch {
+      return { content: atob(data.content.replace(/\n/g, "")), sha: data.sha, path: data.path };
+    }
+  }
+  return null;
+}
+
+export async function githubJson(url: string, token: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const errText = await res.text();
+    console.error(`GitHub API error ${method} ${url} [${res.status}]: ${errText}`);
+    throw new Error(`Falha na API do GitHub (status ${res.status})`);
+  }
+  return res.json();
+}
+
+export async function getBranchHead(owner: string, name: string, branch: string, token: string): Promise<string> {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/git/ref/heads/${encodeURIComponent(branch)}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) throw new Error(`Não consegui ler a branch ${branch}`);
+  const data = await res.json();
+  return data.object.sha;
+}
+
+// A git commit object: message, tree and parents
+export async function getCommit(owner: string, name: string, sha: string, token: string) {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/git/commits/${sha}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) throw new Error(`Não consegui ler o commit ${sha.slice(0, 7)}`);
+  return res.json();
+}
+
+export interface CommitDiffFile {
+  filename: string;
+  previous_filename?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  // Unified diff hunks; GitHub leaves it out for binary and very large files
+  patch: string | null;
+}
+
+export interface CommitDiff {
+  sha: string;
+  message: string;
+  html_url: string;
+  files: CommitDiffFile[];
+}
+
+// The commit with its per-file patches, as GitHub's web diff shows it
+export async function getCommitDiff(owner: string, name: string, sha: string, token: string): Promise<CommitDiff> {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/commits/${sha}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) throw new Error(`Não consegui ler o diff do commit ${sha.slice(0, 7)}`);
+  const data = await res.json();
+  return {
+    sha: data.sha,
+    message: data.commit?.message ?? "",
+    html_url: data.html_url,
+    files: (data.files ?? []).map((f: CommitDiffFile) => ({
+      filename: f.filename,
+      previous_filename: f.previous_filename,
+      status: f.status,
+      additions: f.additions,
+      deletions: f.deletions,
+      patch: f.patch ?? null,
+    })),
+  };
+}
+
+// Commits every change as a single commit through the Git Data API:
+// blobs -> tree -> commit -> ref update. Nothing lands on the branch unless
+// every step succeeds, so a request never leaves a half-applied change.
+// Deletes (and the old side of renames) are tree entries with a null sha.
+// A rename without content keeps the file's blob.
+// With a `base`, a branch that moved since then is fine as long as none of
+// the touched files did: the changes are replayed on the new head. Otherwise
+// it throws a ConflictError listing the files.
+export async function commitChanges(
+  owner: string, name: string, branch: string,
+  changes: FileChange[],
+  fileModes: Map<string, string>, message: string, token: string,
+  base?: BaseSnapshot
+) {
+  const api = `https://api.github.com/repos/${owner}/${name}/git`;
+  const headSha = await getBranchHead(owner, name, branch, token);
+  const headBlobs = async () => {
+    const headTree = await getRepoTree(owner, name, headSha, token);
+    return new Map<string, string>(
+      (headTree.tree || [])
+        .filter((f: { type: string }) => f.type === "blob")
+        .map((f: { path: string; sha: string }) => [f.path, f.sha])
+    );
+  };
+
+  // Renames that don't change the content reuse the original blob, so binary
+  // and large files (which never go through text) move intact. Past the
+  // conflict check below their blob on head is the one in `base`.
+  const keptBlobs = base?.blobShas
+    ?? (changes.some((c) => c.action === "rename" && c.content === undefined) ? await headBlobs() : new Map<string, string>());
+
+  if (base && headSha !== base.commitSha) {
+    const conflicts = conflictingPaths(changes, base.blobShas, await headBlobs());
+    if (conflicts.length > 0) {
+      throw {
+        status: 409,
+        code: "conflict",
+        message: `A branch ${branch} mudou desde que as mudanças foram feitas. Arquivos em conflito: ${conflicts.join(", ")}`,
+        conflicts,
+      } as ConflictError;
+    }
+  }
+
+  const baseTree: string = (await getCommit(owner, name, headSha, token)).tree.sha;
+
+  const entries = (await Promise.all(changes.map(async (change) => {
+    const mode = fileModes.get(change.previous_path ?? change.path) || "100644";
+    const removed = { path: change.previous_path ?? change.path, mode, type: "blob", sha: null };
+    if (change.action === "delete") return [removed];
+    if (change.action === "rename" && change.content === undefined) {
+      const sha = keptBlobs.get(removed.path);
+      if (!sha) throw new Error(`Arquivo não encontrado para renomear: ${removed.path}`);
+      return [removed, { path: change.path, mode, type: "blob", sha }];
+    }
+    if (change.content === undefined) throw new Error(`Mudança sem conteúdo para ${change.path}`);
+
+    const blob = await githubJson(`${api}/blobs`, token, "POST", {
+      content: btoa(unescape(encodeURIComponent(change.content))),
+      encoding: "base64",
+    });
+    const written = { path: change.path, mode, type: "blob", sha: blob.sha as string | null };
+    return change.action === "rename" ? [removed, written] : [written];
+  }))).flat();
+
+  const tree = await githubJson(`${api}/trees`, token, "POST", { base_tree: baseTree, tree: entries });
+  const commit = await githubJson(`${api}/commits`, token, "POST", {
+    message,
+    tree: tree.sha,
+    parents: [headSha],
+  });
+  await githubJson(`${api}/refs/heads/${encodeURIComponent(branch)}`, token, "PATCH", { sha: commit.sha });
+
+  return commit.sha as string;
+}
+
+export interface ReplayResult {
+  // null when there was nothing left to change
+  commitSha: string | null;
+  changed: string[];
+  // `changed` as files_changed entries (see changes.ts)
+  filesChanged: string[];
+  skipped: string[];
+}
+
+// Makes one commit on `branch` that takes every file that differs between
+// each step's `from` and `to` commits to its state in `to`, steps in order
+// (see replay.ts). Throws a ConflictError, committing nothing, if any of them
+// changed since `from`.
+export async function replayCommits(
+  owner: string, name: string, branch: string,
+  steps: { from: string; to: string }[], message: string, token: string
+): Promise<ReplayResult> {
+  const api = `https://api.github.com/repos/${owner}/${name}/git`;
+  const headSha = await getBranchHead(owner, name, branch, token);
+
+  // Consecutive commits share trees (one's parent is the next one), fetch each once
+  const trees = new Map<string, ReturnType<typeof getRepoTree>>();
+  const treeOf = (sha: string) => {
+    if (!trees.has(sha)) trees.set(sha, getRepoTree(owner, name, sha, token));
+    return trees.get(sha)!;
+  };
+  const headTree = await treeOf(headSha);
+  const resolved = await Promise.all(steps.map(async (step) => ({
+    from: treeBlobs(await treeOf(step.from)),
+    to: treeBlobs(await treeOf(step.to)),
+  })));
+
+  const headBlobs = treeBlobs(headTree);
+  const plan = planReplays(resolved, headBlobs);
+  if (plan.conflicts.length > 0) {
+    throw {
+      status: 409,
+      code: "conflict",
+      message: `Arquivos alterados por commits posteriores: ${plan.conflicts.join(", ")}`,
+      conflicts: plan.conflicts,
+    } as ConflictError;
+  }
+  if (plan.entries.length === 0) return { commitSha: null, changed: [], filesChanged: [], skipped: plan.skipped };
+
+  const tree = await githubJson(`${api}/trees`, token, "POST", { base_tree: headTree.sha, tree: plan.entries });
+  const commit = await githubJson(`${api}/commits`, token, "POST", { message, tree: tree.sha, parents: [headSha] });
+  await githubJson(`${api}/refs/heads/${encodeURIComponent(branch)}`, token, "PATCH", { sha: commit.sha });
+
+  const filesChanged = plan.entries.map((e) => changeEntry({
+    path: e.path,
+    action: e.sha === null ? "delete" : headBlobs.has(e.path) ? "update" : "create",
+  }));
+  return { commitSha: commit.sha as string, changed: plan.changed, filesChanged, skipped: plan.skipped };
+}
+
+export function branchSlug(commitMessage: string): string {
+  const slug = commitMessage
+    .toLowerCase()
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+  return `${slug || "change"}-${Date.now().toString(36)}`;
+}
+
+export async function createBranch(owner: string, name: string, branch: string, fromSha: string, token: string) {
+  await githubJson(`https://api.github.com/repos/${owner}/${name}/git/refs`, token, "POST", {
+    ref: `refs/heads/${branch}`,
+    sha: fromSha,
+  });
+}
+
+export async function deleteBranch(owner: string, name: string, branch: string, token: string) {
+  const res = await fetch(`https://api.github.com/repos/${owner}/${name}/git/refs/heads/${encodeURIComponent(branch)}`, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/vnd.github.v3+json" },
+  });
+  if (!res.ok) console.error(`Failed to delete branch ${branch} [${res.status}]`);
+}
+
+export async function openPullRequest(
+  owner: string, name: string, head: string, base: string,
+  title: string, body: string, token: string
+): Promise<{ number: number; html_url: string }> {
+  return githubJson(`https://api.github.com/repos/${owner}/${name}/pulls`, token, "POST", {
+    title, body, head, base,
+  });
+}
+
+export interface PublishResult {
+  commitSha: string;
+  branch: string;
+  pullRequest: { number: number; html_url: string } | null;
+}
+
+// Commits the changes straight to `baseBranch`, or, in pull-request mode, to a
+// fresh jtc-cod/<slug> branch with a PR opened against `baseBranch`. The PR
+// branch starts at `base` when given, so it never conflicts: GitHub shows the
+// PR as conflicting instead if `baseBranch` moved underneath.
+export async function publishChanges(
+  owner: string, name: string, baseBranch: string, usePullRequest: boolean,
+  changes: FileChange[], fileModes: Map<string, string>,
+  commitMessage: string, prBody: string, token: string,
+  base?: BaseSnapshot
+): Promise<PublishResult> {
+  if (!usePullRequest) {
+    const commitSha = await commitChanges(owner, name, baseBranch, changes, fileModes, commitMessage, token, base);
+    return { commitSha, branch: baseBranch, pullRequest: null };
+  }
+
+  const branch = `jtc-cod/${branchSlug(commitMessage)}`;
+  const baseSha = base?.commitSha ?? await getBranchHead(owner, name, baseBranch, token);
+  await createBranch(owner, name, branch, baseSha, token);
+  try {
+    const commitSha = await commitChanges(owner, name, branch, changes, fileModes, commitMessage, token, base);
+    const pullRequest = await openPullRequest(owner, name, branch, baseBranch, commitMessage, prBody, token);
+    return { commitSha, branch, pullRequest };
+  } catch (err) {
+    // Don't leave an orphan branch behind when the commit or the PR failed
+    await deleteBranch(owner, name, branch, token);
+    throw err;
+  }
+}
+
+// `filesChanged` holds files_changed entries (see changes.ts)
+export function commitSummary(explanation: string | undefined, filesChanged: string[], result: PublishResult): string {
+  let response = explanation || "Pronto, modificações aplicadas!";
+  response += `\n\n✅ Arquivos atualizados: ${filesChanged.map(formatChangeEntry).join(", ")}`;
+  response += `\n🔗 Commit: \`${result.commitSha.slice(0, 7)}\``;
+  if (result.pullRequest) {
+    response += ` na branch \`${result.branch}\``;
+    response += `\n🔀 Pull request: [#${result.pullRequest.number}](${result.pullRequest.html_url})`;
+  }
+  return response;
+}
+
+// Chat message for a ConflictError: what moved, and that nothing was committed
+export function describeConflicts(branch: string, conflicts: string[]): string {
+  const lines = conflicts.map((path) => `• \`${path}\``);
+  return `⚠️ A branch \`${branch}\` recebeu commits enquanto eu trabalhava e ${conflicts.length === 1 ? "este arquivo mudou" : "estes arquivos mudaram"}:\n\n${lines.join("\n")}\n\nNada foi commitado para não sobrescrever essas mudanças. Manda o pedido de novo que eu refaço em cima da versão atual.`;
+}
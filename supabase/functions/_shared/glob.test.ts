@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { globToRegExp, matchesAny } from "./glob.ts";
+
+const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+describe("globToRegExp", () => {
+  it("matches exact paths from the root", () => {
+    expect(matches("src/main.tsx", "src/main.tsx")).toBe(true);
+    expect(matches("src/main.tsx", "app/src/main.tsx")).toBe(false);
+  });
+
+  it("keeps `*` within a segment and lets `**` cross them", () => {
+    expect(matches("src/*.ts", "src/a.ts")).toBe(true);
+    expect(matches("src/*.ts", "src/lib/a.ts")).toBe(false);
+    expect(matches("src/**/*.ts", "src/a.ts")).toBe(true);
+    expect(matches("src/**/*.ts", "src/lib/deep/a.ts")).toBe(true);
+    expect(matches("supabase/migrations/**", "supabase/migrations/001.sql")).toBe(true);
+  });
+
+  it("matches slash-less patterns at any depth", () => {
+    expect(matches("*.lock", "bun.lock")).toBe(true);
+    expect(matches("*.lock", "packages/app/yarn.lock")).toBe(true);
+    expect(matches("package.json", "packages/app/package.json")).toBe(true);
+  });
+
+  it("treats a trailing slash as a whole directory, at any depth", () => {
+    expect(matches("dist/", "dist/index.js")).toBe(true);
+    expect(matches("dist/", "dist/assets/app.css")).toBe(true);
+    expect(matches("dist/", "apps/web/dist/index.js")).toBe(true);
+    expect(matches("dist/", "distribution/index.js")).toBe(false);
+    expect(matches("dist/", "src/dist.ts")).toBe(false);
+  });
+
+  it("anchors patterns with a leading or inner slash at the root", () => {
+    expect(matches("/package.json", "package.json")).toBe(true);
+    expect(matches("/package.json", "packages/app/package.json")).toBe(false);
+    expect(matches("/dist/", "apps/web/dist/index.js")).toBe(false);
+    expect(matches("apps/dist/", "apps/dist/index.js")).toBe(true);
+    expect(matches("apps/dist/", "x/apps/dist/index.js")).toBe(false);
+  });
+
+  it("escapes regex characters", () => {
+    expect(matches("file(1).txt", "file(1).txt")).toBe(true);
+    expect(matches("a+b.md", "aab.md")).toBe(false);
+  });
+});
+
+describe("matchesAny", () => {
+  it("is true when any glob matches", () => {
+    expect(matchesAny(".env.local", [".env*", "*.pem"])).toBe(true);
+    expect(matchesAny("src/App.tsx", [".env*", "*.pem"])).toBe(false);
+    expect(matchesAny("src/App.tsx", [])).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+// Path globs for repository rules, with gitignore's rules for where they apply:
+//   `*` and `?` stay within one path segment, `**` spans any number of them,
+//   a trailing slash means everything under that directory (`dist/`),
+//   a pattern with no other slash matches at any depth (`*.lock`, `dist/`),
+//   one with a slash at the start or in the middle is anchored at the root
+//   (`src/main.tsx`, `/package.json`).
+// Kept free of URL imports so it can be unit tested under Node.
+
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.\//, "");
+  const directory = pattern.endsWith("/");
+  if (directory) pattern = pattern.slice(0, -1);
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  if (directory) pattern += "/**";
+  if (!anchored) pattern = `**/${pattern}`;
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      // `**/` also matches zero directories
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesAny(path: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path));
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { checkPathPolicy, pathViolation, describeViolations } from "./pathPolicy.ts";
+
+const policy = { allow_globs: [], deny_globs: [".github/workflows/**", "**/*.lock"] };
+
+describe("pathViolation", () => {
+  it("lets through paths no deny glob matches", () => {
+    expect(pathViolation(policy, "src/App.tsx")).toBeNull();
+  });
+
+  it("names the deny glob that matched", () => {
+    expect(pathViolation(policy, ".github/workflows/ci.yml")).toContain(".github/workflows/**");
+    expect(pathViolation(policy, "bun.lock")).toContain("**/*.lock");
+  });
+
+  it("restricts writes to the allow globs when there are any, with deny still winning", () => {
+    const scoped = { allow_globs: ["src/**"], deny_globs: ["src/generated/**"] };
+    expect(pathViolation(scoped, "src/App.tsx")).toBeNull();
+    expect(pathViolation(scoped, "README.md")).toBe("fora dos caminhos permitidos");
+    expect(pathViolation(scoped, "src/generated/api.ts")).toContain("src/generated/**");
+  });
+});
+
+describe("checkPathPolicy", () => {
+  it("checks both sides of a rename", () => {
+    const violations = checkPathPolicy(policy, [
+      { path: "src/App.tsx", action: "update" },
+      { path: "ci.yml", action: "rename", previous_path: ".github/workflows/ci.yml" },
+    ]);
+    expect(violations).toEqual([
+      expect.objectContaining({ path: ".github/workflows/ci.yml", action: "rename" }),
+    ]);
+  });
+
+  it("explains every violation", () => {
+    const text = describeViolations(checkPathPolicy(policy, [{ path: "yarn.lock", action: "delete" }]));
+    expect(text).toContain("apagar `yarn.lock`");
+  });
+});
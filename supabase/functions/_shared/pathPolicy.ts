@@ -0,0 +1,60 @@
+// Per-repository rules for which paths the agent may write, stored on
+// `repositories` as glob lists. Deny always wins; an empty allow list allows
+// every path that isn't denied. Renames are checked on both paths.
+// Kept free of URL imports so it can be unit tested under Node.
+import { globToRegExp, matchesAny } from "./glob.ts";
+
+export interface PathPolicy {
+  allow_globs: string[];
+  deny_globs: string[];
+}
+
+export type ChangeAction = "create" | "update" | "delete" | "rename";
+
+export interface PolicyChange {
+  path: string;
+  action: ChangeAction;
+  // Old path of a rename
+  previous_path?: string | null;
+}
+
+export interface PolicyViolation {
+  path: string;
+  action: ChangeAction;
+  reason: string;
+}
+
+const ACTION_LABELS: Record<ChangeAction, string> = {
+  create: "criar",
+  update: "alterar",
+  delete: "apagar",
+  rename: "renomear",
+};
+
+// Why `path` can't be written, or null when it can
+export function pathViolation(policy: PathPolicy, path: string): string | null {
+  const denied = policy.deny_globs.find((glob) => globToRegExp(glob).test(path));
+  if (denied) return `bloqueado pela regra "${denied}"`;
+  if (policy.allow_globs.length > 0 && !matchesAny(path, policy.allow_globs)) {
+    return "fora dos caminhos permitidos";
+  }
+  return null;
+}
+
+export function checkPathPolicy(policy: PathPolicy, changes: PolicyChange[]): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  for (const change of changes) {
+    const paths = change.action === "rename" && change.previous_path ? [change.previous_path, change.path] : [change.path];
+    for (const path of paths) {
+      const reason = pathViolation(policy, path);
+      if (reason) violations.push({ path, action: change.action, reason });
+    }
+  }
+  return violations;
+}
+
+// Chat message explaining why nothing was committed
+export function describeViolations(violations: PolicyViolation[]): string {
+  const lines = violations.map((v) => `• ${ACTION_LABELS[v.action]} \`${v.path}\`: ${v.reason}`);
+  return `🚫 Nada foi commitado: ${violations.length === 1 ? "uma mudança viola" : `${violations.length} mudanças violam`} a política de caminhos deste repositório.\n\n${lines.join("\n")}\n\nAjuste as regras em "Caminhos" ou peça uma abordagem que não mexa nesses arquivos.`;
+}
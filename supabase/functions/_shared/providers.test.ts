@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { baseUrlProblem, getProvider, resolveRole, validateModelSettings } from "./providers.ts";
+
+describe("baseUrlProblem", () => {
+  it("accepts public http(s) servers", () => {
+    expect(baseUrlProblem("https://meu-ollama.exemplo.com/v1")).toBeNull();
+    expect(baseUrlProblem(" http://203.0.113.7:11434/v1 ")).toBeNull();
+  });
+
+  it("rejects loopback, private and link-local hosts", () => {
+    for (const url of [
+      "http://localhost:11434/v1", "http://api.localhost", "http://127.0.0.1:8080", "http://2130706433",
+      "http://10.0.0.5", "http://172.20.1.1", "http://192.168.0.10", "http://169.254.169.254/latest",
+      "http://[::1]:11434", "http://[fd00::1]", "http://[::ffff:127.0.0.1]", "http://ollama.local",
+    ]) {
+      expect(baseUrlProblem(url), url).toMatch(/local ou privado/);
+    }
+  });
+
+  it("rejects malformed URLs and other protocols", () => {
+    expect(baseUrlProblem("meu-servidor:11434")).not.toBeNull();
+    expect(baseUrlProblem("not a url")).toBe("A URL do servidor é inválida.");
+    expect(baseUrlProblem("file:///etc/passwd")).toBe("A URL do servidor deve usar http:// ou https://.");
+  });
+});
+
+describe("validateModelSettings", () => {
+  it("checks the temperature against the provider's own limit", () => {
+    expect(validateModelSettings(getProvider("openai"), { chat: { temperature: 1.5 } })).toEqual([]);
+    expect(validateModelSettings(getProvider("anthropic"), { chat: { temperature: 1.5 } }))
+      .toEqual(["Conversa: a temperatura deve estar entre 0 e 1 em Anthropic (Claude)"]);
+    expect(validateModelSettings(getProvider("anthropic"), { chat: { temperature: 1 } })).toEqual([]);
+  });
+
+  it("rejects models outside a fixed list and bad token limits", () => {
+    expect(validateModelSettings(getProvider("openai"), { code: { model: "llama3.1", max_tokens: 0 } })).toHaveLength(2);
+    expect(validateModelSettings(getProvider("custom"), { code: { model: "llama3.1" } })).toEqual([]);
+  });
+});
+
+describe("resolveRole", () => {
+  it("falls back to the defaults when a saved setting no longer fits the provider", () => {
+    const settings = { chat: { model: "claude-sonnet-4-0", temperature: 1.5 } };
+    expect(resolveRole(getProvider("openai"), settings, "chat").temperature).toBe(0.7);
+    expect(resolveRole(getProvider("anthropic"), settings, "chat")).toEqual({
+      role: "chat", model: "claude-3-5-haiku-latest", temperature: 0.7, max_tokens: undefined,
+    });
+  });
+});
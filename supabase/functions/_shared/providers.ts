@@ -0,0 +1,405 @@
+// Registry of the AI providers users can pick in their profile. Each entry
+// says where to send requests, how to authenticate, and how to translate
+// between the OpenAI chat format the agent speaks and the provider's own.
+// Plain TypeScript with no Deno APIs: the profile page imports it too.
+
+export type AiToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+export type AiMessage = { role: string; content: string | null; tool_calls?: AiToolCall[]; tool_call_id?: string };
+
+export interface AiTool {
+  type: string;
+  function: { name: string; description?: string; parameters?: unknown };
+}
+
+// OpenAI-style request/response, the lingua franca of the agent
+export interface ChatRequest {
+  model: string;
+  messages: AiMessage[];
+  temperature: number;
+  max_tokens?: number;
+  tools?: AiTool[];
+  stream?: boolean;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatResponse {
+  choices: { message: AiMessage }[];
+  usage?: TokenUsage;
+}
+
+export type ModelRole = "intent" | "chat" | "code";
+
+// Per-role overrides stored in profiles.ai_model_settings
+export interface RoleSettings {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+export type ModelSettings = Partial<Record<ModelRole, RoleSettings>>;
+
+export const MODEL_ROLES: { id: ModelRole; label: string; temperature: number; max_tokens?: number }[] = [
+  { id: "intent", label: "Intenção", temperature: 0, max_tokens: 10 },
+  { id: "chat", label: "Conversa", temperature: 0.7 },
+  { id: "code", label: "Código", temperature: 0.15 },
+];
+
+export interface ProviderSettings {
+  apiKey: string | null;
+  baseUrl: string | null;
+}
+
+export interface AiProvider {
+  id: string;
+  label: string;
+  keyPlaceholder: string;
+  // Shown under the key input: where to get a key / how to set it up
+  help: string;
+  requiresKey: boolean;
+  baseUrl: "none" | "required";
+  baseUrlPlaceholder?: string;
+  // Default model per role, plus the models users may pick. Providers with
+  // `freeformModels` accept any name (deployments, local models, OpenRouter's
+  // huge catalogue) and only use the list as suggestions.
+  models: Record<ModelRole, string>;
+  modelOptions: string[];
+  freeformModels: boolean;
+  // Highest temperature the API accepts (0 is always the lowest)
+  maxTemperature: number;
+  endpoint(settings: ProviderSettings, model: string): string;
+  headers(settings: ProviderSettings): Record<string, string>;
+  toRequest(req: ChatRequest): Record<string, unknown>;
+  fromResponse(json: unknown): ChatResponse;
+  // Text carried by one `data:` payload of a streamed response, if any
+  streamDelta(payload: unknown): string | null;
+  // Token counts carried by one streamed payload, if any (they may arrive split)
+  streamUsage(payload: unknown): Partial<TokenUsage> | null;
+}
+
+const trimSlash = (url: string | null) => (url || "").trim().replace(/\/+$/, "");
+
+// --- OpenAI chat completions (and everything compatible with it) ---
+
+const openAiRequest = (req: ChatRequest) => {
+  const body: Record<string, unknown> = { model: req.model, messages: req.messages, temperature: req.temperature };
+  if (req.max_tokens) body.max_tokens = req.max_tokens;
+  if (req.tools) body.tools = req.tools;
+  if (req.stream) {
+    body.stream = true;
+    // Streamed responses only carry token usage when asked for
+    body.stream_options = { include_usage: true };
+  }
+  return body;
+};
+
+const openAiStreamDelta = (payload: unknown) =>
+  (payload as { choices?: { delta?: { content?: string } }[] })?.choices?.[0]?.delta?.content || null;
+
+const openAiStreamUsage = (payload: unknown) => {
+  const usage = (payload as { usage?: TokenUsage | null })?.usage;
+  return usage ? { prompt_tokens: usage.prompt_tokens, completion_tokens: usage.completion_tokens } : null;
+};
+
+const openAiCompatible = {
+  toRequest: openAiRequest,
+  fromResponse: (json: unknown) => json as ChatResponse,
+  streamDelta: openAiStreamDelta,
+  streamUsage: openAiStreamUsage,
+};
+
+const bearer = (settings: ProviderSettings): Record<string, string> => ({
+  ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+  "Content-Type": "application/json",
+});
+
+// --- Anthropic Messages API ---
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+function anthropicRequest(req: ChatRequest) {
+  const system = req.messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+  const messages: { role: "user" | "assistant"; content: AnthropicBlock[] }[] = [];
+
+  // Anthropic wants strictly alternating turns, so consecutive messages with
+  // the same role (e.g. several tool results) are merged into one
+  const push = (role: "user" | "assistant", blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) last.content.push(...blocks);
+    else messages.push({ role, content: blocks });
+  };
+
+  for (const m of req.messages) {
+    if (m.role === "system") continue;
+    if (m.role === "tool") {
+      push("user", [{ type: "tool_result", tool_use_id: m.tool_call_id || "", content: m.content || "" }]);
+    } else if (m.role === "assistant") {
+      const blocks: AnthropicBlock[] = m.content ? [{ type: "text", text: m.content }] : [];
+      for (const call of m.tool_calls || []) {
+        let input: unknown = {};
+        try {
+          input = JSON.parse(call.function.arguments || "{}");
+        } catch { /* keep {} */ }
+        blocks.push({ type: "tool_use", id: call.id, name: call.function.name, input });
+      }
+      push("assistant", blocks);
+    } else {
+      push("user", [{ type: "text", text: m.content || "" }]);
+    }
+  }
+
+  const body: Record<string, unknown> = {
+    model: req.model,
+    messages,
+    temperature: req.temperature,
+    max_tokens: req.max_tokens || 8192,
+  };
+  if (system) body.system = system;
+  if (req.tools) {
+    body.tools = req.tools.map((t) => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters,
+    }));
+  }
+  if (req.stream) body.stream = true;
+  return body;
+}
+
+function anthropicResponse(json: unknown): ChatResponse {
+  const data = json as {
+    content?: AnthropicBlock[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  const blocks = data.content || [];
+  const text = blocks.flatMap((b) => (b.type === "text" ? [b.text] : [])).join("");
+  const toolCalls: AiToolCall[] = blocks.flatMap((b) =>
+    b.type === "tool_use"
+      ? [{ id: b.id, type: "function" as const, function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }]
+      : []
+  );
+  const input = data.usage?.input_tokens || 0;
+  const output = data.usage?.output_tokens || 0;
+
+  return {
+    choices: [{
+      message: { role: "assistant", content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) },
+    }],
+    usage: { prompt_tokens: input, completion_tokens: output, total_tokens: input + output },
+  };
+}
+
+function anthropicStreamDelta(payload: unknown) {
+  const event = payload as { type?: string; delta?: { type?: string; text?: string } };
+  return event?.type === "content_block_delta" && event.delta?.type === "text_delta" ? event.delta.text || null : null;
+}
+
+// Input tokens come in `message_start`, output tokens in the final `message_delta`
+function anthropicStreamUsage(payload: unknown) {
+  const event = payload as {
+    type?: string;
+    message?: { usage?: { input_tokens?: number } };
+    usage?: { output_tokens?: number };
+  };
+  if (event?.type === "message_start") return { prompt_tokens: event.message?.usage?.input_tokens || 0 };
+  if (event?.type === "message_delta") return { completion_tokens: event.usage?.output_tokens || 0 };
+  return null;
+}
+
+// --- Registry ---
+
+export const AI_PROVIDERS: AiProvider[] = [
+  {
+    id: "gemini",
+    label: "Google Gemini",
+    keyPlaceholder: "AIzaSy...",
+    help: "Obtenha em aistudio.google.com",
+    requiresKey: true,
+    baseUrl: "none",
+    models: { intent: "gemini-2.0-flash-lite", chat: "gemini-2.0-flash", code: "gemini-2.5-flash" },
+    modelOptions: ["gemini-2.0-flash-lite", "gemini-2.0-flash", "gemini-2.5-flash", "gemini-2.5-pro"],
+    freeformModels: false,
+    maxTemperature: 2,
+    endpoint: () => "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions",
+    headers: bearer,
+    ...openAiCompatible,
+  },
+  {
+    id: "openai",
+    label: "OpenAI (ChatGPT)",
+    keyPlaceholder: "sk-...",
+    help: "Obtenha em platform.openai.com",
+    requiresKey: true,
+    baseUrl: "none",
+    models: { intent: "gpt-4o-mini", chat: "gpt-4o-mini", code: "gpt-4o" },
+    modelOptions: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"],
+    freeformModels: false,
+    maxTemperature: 2,
+    endpoint: () => "https://api.openai.com/v1/chat/completions",
+    headers: bearer,
+    ...openAiCompatible,
+  },
+  {
+    id: "anthropic",
+    label: "Anthropic (Claude)",
+    keyPlaceholder: "sk-ant-...",
+    help: "Obtenha em console.anthropic.com",
+    requiresKey: true,
+    baseUrl: "none",
+    models: { intent: "claude-3-5-haiku-latest", chat: "claude-3-5-haiku-latest", code: "claude-sonnet-4-0" },
+    modelOptions: ["claude-3-5-haiku-latest", "claude-sonnet-4-0", "claude-opus-4-0"],
+    freeformModels: false,
+    maxTemperature: 1,
+    endpoint: () => "https://api.anthropic.com/v1/messages",
+    headers: (settings) => ({
+      "x-api-key": settings.apiKey || "",
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    }),
+    toRequest: anthropicRequest,
+    fromResponse: anthropicResponse,
+    streamDelta: anthropicStreamDelta,
+    streamUsage: anthropicStreamUsage,
+  },
+  {
+    id: "openrouter",
+    label: "OpenRouter",
+    keyPlaceholder: "sk-or-...",
+    help: "Obtenha em openrouter.ai/keys. Use o nome completo do modelo, ex: openai/gpt-4o",
+    requiresKey: true,
+    baseUrl: "none",
+    models: { intent: "openai/gpt-4o-mini", chat: "openai/gpt-4o-mini", code: "anthropic/claude-sonnet-4" },
+    modelOptions: ["openai/gpt-4o-mini", "openai/gpt-4o", "anthropic/claude-sonnet-4", "google/gemini-2.5-flash"],
+    freeformModels: true,
+    maxTemperature: 2,
+    endpoint: () => "https://openrouter.ai/api/v1/chat/completions",
+    headers: (settings) => ({ ...bearer(settings), "X-Title": "JTC COD" }),
+    ...openAiCompatible,
+  },
+  {
+    id: "azure",
+    label: "Azure OpenAI",
+    keyPlaceholder: "Chave do recurso Azure",
+    help: "Use a URL do recurso e os nomes dos seus deployments como modelos",
+    requiresKey: true,
+    baseUrl: "required",
+    baseUrlPlaceholder: "https://meu-recurso.openai.azure.com",
+    models: { intent: "gpt-4o-mini", chat: "gpt-4o-mini", code: "gpt-4o" },
+    modelOptions: [],
+    freeformModels: true,
+    maxTemperature: 2,
+    // On Azure the "model" is the deployment name, and it goes in the URL
+    endpoint: (settings, model) =>
+      `${trimSlash(settings.baseUrl)}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=2024-10-21`,
+    headers: (settings) => ({ "api-key": settings.apiKey || "", "Content-Type": "application/json" }),
+    ...openAiCompatible,
+  },
+  {
+    id: "custom",
+    label: "Compatível com OpenAI (Ollama, llama.cpp...)",
+    keyPlaceholder: "Opcional",
+    help: "Qualquer servidor com /chat/completions. O servidor precisa estar acessível pela internet (ex: via túnel), não só na sua máquina",
+    requiresKey: false,
+    baseUrl: "required",
+    baseUrlPlaceholder: "https://meu-ollama.exemplo.com/v1",
+    models: { intent: "llama3.1", chat: "llama3.1", code: "qwen2.5-coder" },
+    modelOptions: [],
+    freeformModels: true,
+    maxTemperature: 2,
+    endpoint: (settings) => `${trimSlash(settings.baseUrl)}/chat/completions`,
+    headers: bearer,
+    ...openAiCompatible,
+  },
+];
+
+export const DEFAULT_PROVIDER_ID = "gemini";
+
+// Unknown ids (e.g. a provider that was removed) fall back to the default
+export function getProvider(id: string | null | undefined): AiProvider {
+  return AI_PROVIDERS.find((p) => p.id === id) || AI_PROVIDERS.find((p) => p.id === DEFAULT_PROVIDER_ID)!;
+}
+
+// Requests to the base URL go out from our servers, so it must be a public
+// http(s) address: loopback, private and link-local hosts are refused.
+export function baseUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return "A URL do servidor é inválida.";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return "A URL do servidor deve usar http:// ou https://.";
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.\d+\.\d+$/)?.slice(1).map(Number);
+  const internal =
+    host === "localhost" || /\.(localhost|local|internal)$/.test(host) ||
+    (ipv4 !== undefined && (
+      [0, 10, 127].includes(ipv4[0]) ||
+      (ipv4[0] === 169 && ipv4[1] === 254) ||
+      (ipv4[0] === 172 && ipv4[1] >= 16 && ipv4[1] <= 31) ||
+      (ipv4[0] === 192 && ipv4[1] === 168) ||
+      (ipv4[0] === 100 && ipv4[1] >= 64 && ipv4[1] <= 127)
+    )) ||
+    (host.includes(":") && (host === "::" || host === "::1" || /^(fc|fd|fe[89ab])/.test(host) || host.startsWith("::ffff:")));
+  return internal
+    ? "A URL do servidor aponta para um endereço local ou privado; ele precisa estar acessível pela internet."
+    : null;
+}
+
+export function isValidModel(provider: AiProvider, model: string): boolean {
+  const name = model.trim();
+  if (!name) return false;
+  return provider.freeformModels || provider.modelOptions.includes(name);
+}
+
+// Problems with a user's per-role settings, in the UI's language. Empty when valid.
+export function validateModelSettings(provider: AiProvider, settings: ModelSettings): string[] {
+  const errors: string[] = [];
+  for (const role of MODEL_ROLES) {
+    const s = settings[role.id];
+    if (!s) continue;
+    if (s.model !== undefined && s.model !== "" && !isValidModel(provider, s.model)) {
+      errors.push(`${role.label}: o modelo "${s.model}" não está disponível em ${provider.label}`);
+    }
+    if (
+      s.temperature !== undefined &&
+      (!Number.isFinite(s.temperature) || s.temperature < 0 || s.temperature > provider.maxTemperature)
+    ) {
+      errors.push(`${role.label}: a temperatura deve estar entre 0 e ${provider.maxTemperature} em ${provider.label}`);
+    }
+    if (s.max_tokens !== undefined && (!Number.isInteger(s.max_tokens) || s.max_tokens < 1 || s.max_tokens > 200_000)) {
+      errors.push(`${role.label}: o máximo de tokens deve ser um inteiro entre 1 e 200000`);
+    }
+  }
+  return errors;
+}
+
+export interface ResolvedRole {
+  role: ModelRole;
+  model: string;
+  temperature: number;
+  max_tokens?: number;
+}
+
+// Settings actually used for a role: the user's override when it's valid for
+// this provider, the registry/role defaults otherwise (e.g. after switching
+// providers, old model names are simply ignored).
+export function resolveRole(provider: AiProvider, settings: ModelSettings | null, role: ModelRole): ResolvedRole {
+  const defaults = MODEL_ROLES.find((r) => r.id === role)!;
+  const own = settings?.[role] || {};
+  const valid = validateModelSettings(provider, { [role]: own }).length === 0;
+  return {
+    role,
+    model: valid && own.model ? own.model.trim() : provider.models[role],
+    temperature: valid && own.temperature !== undefined ? own.temperature : defaults.temperature,
+    max_tokens: valid && own.max_tokens !== undefined ? own.max_tokens : defaults.max_tokens,
+  };
+}
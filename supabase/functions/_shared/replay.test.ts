@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { planReplay, planReplays, treeBlobs, type TreeBlob } from "./replay.ts";
+
+const blobs = (entries: Record<string, string>) =>
+  new Map<string, TreeBlob>(Object.entries(entries).map(([path, sha]) => [path, { sha, mode: "100644" }]));
+
+// The commit being reverted: edits a.ts, adds b.ts, deletes c.ts, renames d.ts -> e.ts
+const parent = blobs({ "a.ts": "a1", "c.ts": "c1", "d.ts": "d1", "keep.ts": "k1" });
+const commit = blobs({ "a.ts": "a2", "b.ts": "b1", "e.ts": "d1", "keep.ts": "k1" });
+
+describe("planReplay", () => {
+  it("inverts every change when nothing touched them since", () => {
+    const head = new Map([...commit, ["other.ts", { sha: "o1", mode: "100644" }]]);
+    const plan = planReplay(commit, parent, head);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.skipped).toEqual([]);
+    expect(plan.entries).toEqual([
+      { path: "a.ts", mode: "100644", type: "blob", sha: "a1" },
+      { path: "b.ts", mode: "100644", type: "blob", sha: null },
+      { path: "c.ts", mode: "100644", type: "blob", sha: "c1" },
+      { path: "d.ts", mode: "100644", type: "blob", sha: "d1" },
+      { path: "e.ts", mode: "100644", type: "blob", sha: null },
+    ]);
+  });
+
+  it("reports files later commits changed, recreated or removed", () => {
+    const head = blobs({ "a.ts": "a3", "c.ts": "c9", "d.ts": "d1", "keep.ts": "k1" });
+    const plan = planReplay(commit, parent, head);
+    expect(plan.conflicts).toEqual(["a.ts", "c.ts"]);
+    // b.ts and e.ts are already gone, d.ts already back
+    expect(plan.skipped).toEqual(["b.ts", "d.ts", "e.ts"]);
+  });
+
+  it("re-applies a commit the other way around", () => {
+    const plan = planReplay(parent, commit, parent);
+    expect(plan.changed).toEqual(["a.ts", "b.ts", "c.ts", "d.ts", "e.ts"]);
+    expect(plan.entries.find((e) => e.path === "c.ts")?.sha).toBeNull();
+  });
+});
+
+describe("treeBlobs", () => {
+  it("keeps only blobs", () => {
+    const map = treeBlobs({
+      tree: [
+        { path: "src", type: "tree", sha: "t1", mode: "040000" },
+        { path: "src/a.ts", type: "blob", sha: "a1", mode: "100644" },
+        { path: "run.sh", type: "blob", sha: "r1", mode: "100755" },
+      ],
+    });
+    expect([...map.keys()]).toEqual(["src/a.ts", "run.sh"]);
+    expect(map.get("run.sh")).toEqual({ sha: "r1", mode: "100755" });
+  });
+});
+
+describe("planReplays", () => {
+  // Two commits: the first edits a.ts, the second edits it again and adds b.ts
+  const base = blobs({ "a.ts": "a1" });
+  const first = blobs({ "a.ts": "a2" });
+  const second = blobs({ "a.ts": "a3", "b.ts": "b1" });
+
+  it("reverts a range newest first as one set of entries", () => {
+    const plan = planReplays([{ from: second, to: first }, { from: first, to: base }], second);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.entries).toEqual([
+      { path: "a.ts", mode: "100644", type: "blob", sha: "a1" },
+      { path: "b.ts", mode: "100644", type: "blob", sha: null },
+    ]);
+  });
+
+  it("reports files changed after the newest commit of the range", () => {
+    const head = blobs({ "a.ts": "a9", "b.ts": "b1" });
+    const plan = planReplays([{ from: second, to: first }, { from: first, to: base }], head);
+    expect(plan.conflicts).toEqual(["a.ts"]);
+  });
+});
@@ -0,0 +1,104 @@
+// Moves the files that differ between two commits from one state to the
+// other on top of a third one: reverting a commit is replaying it from the
+// commit to its parent, re-applying it is replaying parent -> commit.
+// Works on path -> blob maps from the Git Data API, so no content is fetched.
+// Kept free of URL imports so it can be unit tested under Node.
+
+export interface TreeBlob {
+  sha: string;
+  mode: string;
+}
+
+// A Git Data API tree entry; a null sha removes the path
+export interface TreeEntry {
+  path: string;
+  mode: string;
+  type: "blob";
+  sha: string | null;
+}
+
+export interface ReplayPlan {
+  entries: TreeEntry[];
+  // Paths the entries change
+  changed: string[];
+  // Already in the target state on head
+  skipped: string[];
+  // Changed on head since `from`: replaying would overwrite that work
+  conflicts: string[];
+}
+
+const same = (a?: TreeBlob, b?: TreeBlob) => a?.sha === b?.sha && (!a || a.mode === b?.mode);
+
+// Sets `path` to `after`, or removes it (keeping the mode it had) when there's no `after`
+const entryFor = (path: string, before: TreeBlob, after?: TreeBlob): TreeEntry =>
+  after ? { path, mode: after.mode, type: "blob", sha: after.sha } : { path, mode: before.mode, type: "blob", sha: null };
+
+export function planReplay(
+  from: Map<string, TreeBlob>, to: Map<string, TreeBlob>, head: Map<string, TreeBlob>
+): ReplayPlan {
+  const plan: ReplayPlan = { entries: [], changed: [], skipped: [], conflicts: [] };
+  const paths = [...new Set([...from.keys(), ...to.keys()])].sort();
+
+  for (const path of paths) {
+    const before = from.get(path);
+    const after = to.get(path);
+    if (same(before, after)) continue;
+
+    const current = head.get(path);
+    if (same(current, after)) {
+      plan.skipped.push(path);
+    } else if (!same(current, before)) {
+      plan.conflicts.push(path);
+    } else {
+      plan.changed.push(path);
+      plan.entries.push(entryFor(path, before!, after));
+    }
+  }
+
+  return plan;
+}
+
+// Several replays in a row, as one set of tree entries: each step sees the
+// files as the previous steps left them (reverting a range of commits is
+// replaying each one, newest first). A path is only skipped if no step changes it.
+export function planReplays(
+  steps: { from: Map<string, TreeBlob>; to: Map<string, TreeBlob> }[], head: Map<string, TreeBlob>
+): ReplayPlan {
+  const current = new Map(head);
+  const skipped = new Set<string>();
+  const conflicts = new Set<string>();
+
+  for (const step of steps) {
+    const plan = planReplay(step.from, step.to, current);
+    plan.skipped.forEach((path) => skipped.add(path));
+    plan.conflicts.forEach((path) => conflicts.add(path));
+    for (const entry of plan.entries) {
+      if (entry.sha) current.set(entry.path, { sha: entry.sha, mode: entry.mode });
+      else current.delete(entry.path);
+    }
+  }
+
+  // Net effect against head: a file one step changes and a later one puts back drops out
+  const entries: TreeEntry[] = [];
+  for (const path of [...new Set([...head.keys(), ...current.keys()])].sort()) {
+    const before = head.get(path);
+    const after = current.get(path);
+    if (same(before, after)) continue;
+    entries.push(entryFor(path, before!, after));
+  }
+  const changed = entries.map((e) => e.path);
+
+  return {
+    entries,
+    changed,
+    skipped: [...skipped].filter((path) => !changed.includes(path)).sort(),
+    conflicts: [...conflicts].sort(),
+  };
+}
+
+// path -> blob from a recursive GET /git/trees response
+export function treeBlobs(tree: { tree?: { path: string; type: string; sha: string; mode: string }[] }) {
+  return new Map<string, TreeBlob>(
+    (tree.tree || []).filter((f) => f.type === "blob").map((f) => [f.path, { sha: f.sha, mode: f.mode }])
+  );
+}
@@ -0,0 +1,43 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticate, assertOwner, assertSameUser } from "./auth.ts";
+import { decryptSecret } from "./secrets.ts";
+
+export interface RepositoryRow {
+  id: string;
+  user_id: string;
+  repo_owner: string;
+  repo_name: string;
+  github_token: string;
+  commit_mode: string;
+  review_first: boolean;
+  allow_globs: string[];
+  deny_globs: string[];
+}
+
+export function serviceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+export type ServiceClient = ReturnType<typeof serviceClient>;
+
+// Resolves the caller from the request's Supabase JWT and loads the repository
+// they asked for with the service role, GitHub token included (decrypted).
+// The token is not readable by the client, so this is the only way functions
+// get it.
+// `body.user_id`, if an older client still sends it, must match the caller.
+export async function loadRepository(req: Request, body: { repository_id?: string; user_id?: string }) {
+  const sb = serviceClient();
+  const userId = await authenticate(req, sb);
+  assertSameUser(body.user_id, userId);
+
+  if (!body.repository_id) throw { status: 400, message: "repository_id é obrigatório." };
+  const { data } = await sb
+    .from("repositories")
+    .select("id, user_id, repo_owner, repo_name, github_token, commit_mode, review_first, allow_globs, deny_globs")
+    .eq("id", body.repository_id)
+    .maybeSingle();
+  const repo = assertOwner(data as RepositoryRow | null, userId, "Repositório");
+  repo.github_token = (await decryptSecret(sb, repo.github_token)) || "";
+
+  return { sb, userId, repo };
+}
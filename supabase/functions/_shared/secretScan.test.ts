@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { scanForSecrets, scanChanges, shannonEntropy, describeFindings } from "./secretScan.ts";
+
+// Built at runtime so this file doesn't trip secret scanners itself
+const fake = {
+  githubPat: "ghp_" + "A1b2C3d4E5".repeat(4),
+  githubFineGrained: "github_pat_" + "11AB22CD33_".repeat(4),
+  openai: "sk-proj-" + "Xy9Zw8Vu7T".repeat(4),
+  anthropic: "sk-ant-api03-" + "Qr5St6Uv7W".repeat(4),
+  gemini: "AIza" + "SyD3f4G5h6J7k8L9m0N1p2Q3r4S5t6U7v8W",
+  awsAccess: "AKIA" + "IOSFODNN7EXAMPLE",
+  awsSecret: "wJalrXUtnFEMI/K7MDENG/bPxRfiCY" + "EXAMPLEKEY",
+  privateKey: "-----BEGIN " + "RSA PRIVATE KEY-----",
+};
+
+const jwt = (payload: object) =>
+  ["eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9", btoa(JSON.stringify(payload)).replace(/=+$/, ""), "c2lnbmF0dXJlLXNpZ25hdHVyZQ"].join(".");
+
+const rules = (content: string, known?: string[]) => scanForSecrets("src/config.ts", content, known).map((f) => f.rule);
+
+describe("scanForSecrets", () => {
+  it("finds GitHub tokens", () => {
+    expect(rules(`const token = "${fake.githubPat}";`)).toEqual(["github-token"]);
+    expect(rules(`GITHUB_TOKEN=${fake.githubFineGrained}`)).toEqual(["github-token"]);
+  });
+
+  it("finds OpenAI, Anthropic and Gemini keys", () => {
+    expect(rules(`OPENAI_API_KEY=${fake.openai}`)).toEqual(["openai-key"]);
+    expect(rules(`const key = '${fake.anthropic}'`)).toEqual(["anthropic-key"]);
+    expect(rules(`fetch(\`https://x.googleapis.com/?key=${fake.gemini}\`)`)).toEqual(["google-api-key"]);
+  });
+
+  it("finds AWS access and secret keys", () => {
+    expect(rules(`aws_access_key_id = ${fake.awsAccess}`)).toEqual(["aws-access-key"]);
+    expect(rules(`aws_secret_access_key = ${fake.awsSecret}`)).toEqual(["aws-secret-key"]);
+  });
+
+  it("finds private keys", () => {
+    expect(rules(`${fake.privateKey}\nMIIEowIBAAKCAQEA...`)).toEqual(["private-key"]);
+    expect(rules("-----BEGIN " + "OPENSSH PRIVATE KEY-----")).toEqual(["private-key"]);
+  });
+
+  it("flags Supabase service_role keys but not anon keys", () => {
+    expect(rules(`const key = "${jwt({ role: "service_role", iss: "supabase" })}"`)).toEqual(["supabase-service-key"]);
+    expect(rules(`const key = "${jwt({ role: "anon", iss: "supabase" })}"`)).toEqual([]);
+  });
+
+  it("flags random-looking values assigned to secret names only", () => {
+    expect(rules(`const clientSecret = "q8Zt2LmW9xVb4RkN7pYs3HdJ";`)).toEqual(["high-entropy"]);
+    expect(rules(`const password = "aaaaaaaaaaaaaaaaaaaaaaaa";`)).toEqual([]);
+    expect(rules(`const apiKey = process.env.API_KEY;`)).toEqual([]);
+    expect(rules(`const greeting = "q8Zt2LmW9xVb4RkN7pYs3HdJ";`)).toEqual([]);
+  });
+
+  it("matches the caller's own secrets verbatim", () => {
+    expect(rules(`const k = "my-custom-llm-key-123";`, ["my-custom-llm-key-123"])).toEqual(["known-secret"]);
+  });
+
+  it("reports the line and never the full secret", () => {
+    const [finding] = scanForSecrets("a.ts", `line one\nconst t = "${fake.githubPat}";`);
+    expect(finding.line).toBe(2);
+    expect(finding.preview).toBe("ghp_…");
+    expect(describeFindings([finding])).not.toContain(fake.githubPat);
+  });
+
+  it("leaves ordinary code alone", () => {
+    const code = `import { useState } from "react";\nconst sk = "sk-short";\nexport const id = "0f8fad5b-d9cb-469f-a165-70867728950e";`;
+    expect(rules(code)).toEqual([]);
+  });
+});
+
+describe("scanChanges", () => {
+  it("scans every change", () => {
+    const findings = scanChanges([
+      { path: "a.ts", content: "ok" },
+      { path: ".env", content: `OPENAI_API_KEY=${fake.openai}` },
+    ]);
+    expect(findings.map((f) => f.path)).toEqual([".env"]);
+  });
+
+  it("ignores secrets the file already had and reports the ones the change adds", () => {
+    const original = `const a = 1;\nconst token = "${fake.githubPat}";\n`;
+    const edited = original.replace("const a = 1;", "const a = 2;");
+    expect(scanChanges([{ path: "src/config.ts", original, content: edited }])).toEqual([]);
+
+    const findings = scanChanges([{ path: "src/config.ts", original, content: `${edited}OPENAI_API_KEY=${fake.openai}\n` }]);
+    expect(findings.map((f) => [f.line, f.rule])).toEqual([[3, "openai-key"]]);
+  });
+});
+
+describe("shannonEntropy", () => {
+  it("is 0 for a repeated character and grows with variety", () => {
+    expect(shannonEntropy("aaaa")).toBe(0);
+    expect(shannonEntropy("abcd")).toBe(2);
+  });
+});
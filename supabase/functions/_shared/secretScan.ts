@@ -0,0 +1,130 @@
+// Looks for credentials in content the agent is about to commit: well-known
+// token formats, private keys, high-entropy values assigned to secret-looking
+// names, and the caller's own keys (which the model has seen in context).
+// Kept free of URL imports so it can be unit tested under Node.
+
+export interface SecretFinding {
+  path: string;
+  line: number;
+  rule: string;
+  label: string;
+  // First characters only, never the whole secret
+  preview: string;
+}
+
+interface SecretRule {
+  id: string;
+  label: string;
+  pattern: RegExp;
+  // Extra check on the match, e.g. decoding a JWT
+  confirm?: (match: string) => boolean;
+}
+
+// Secret-looking assignments need at least this much entropy (bits per char)
+const MIN_ENTROPY = 3.5;
+
+function jwtRole(token: string): string | null {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).role ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const c of value) counts.set(c, (counts.get(c) || 0) + 1);
+  let entropy = 0;
+  for (const n of counts.values()) {
+    const p = n / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Order matters: the first rule to match a span wins
+const RULES: SecretRule[] = [
+  { id: "private-key", label: "Chave privada", pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { id: "github-token", label: "Token do GitHub", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { id: "anthropic-key", label: "Chave da Anthropic", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { id: "openai-key", label: "Chave da OpenAI", pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { id: "google-api-key", label: "Chave do Google/Gemini", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { id: "aws-access-key", label: "Chave de acesso da AWS", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: "aws-secret-key",
+    label: "Chave secreta da AWS",
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}/gi,
+  },
+  {
+    id: "supabase-service-key",
+    label: "Chave service_role do Supabase",
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+    confirm: (token) => jwtRole(token) === "service_role",
+  },
+  { id: "supabase-secret-key", label: "Chave secreta do Supabase", pattern: /\bsb_secret_[A-Za-z0-9_-]{20,}/g },
+  {
+    id: "high-entropy",
+    label: "Possível segredo (valor aleatório em variável sensível)",
+    pattern: /(?:secret|token|api[_-]?key|apikey|password|passwd|private[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["'`]([^"'`\s]{20,})["'`]/gi,
+    confirm: (match) => {
+      const value = match.match(/["'`]([^"'`\s]{20,})["'`]$/)?.[1] || "";
+      return shannonEntropy(value) >= MIN_ENTROPY;
+    },
+  },
+];
+
+const preview = (secret: string) => `${secret.slice(0, 4)}…`;
+
+// `known` are the caller's own secrets (AI key, GitHub token), matched verbatim
+export function scanForSecrets(path: string, content: string, known: (string | null | undefined)[] = []): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const knownSecrets = known.filter((s): s is string => !!s && s.length >= 8);
+
+  content.split("\n").forEach((text, i) => {
+    const line = i + 1;
+    const taken: [number, number][] = [];
+    const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+
+    for (const secret of knownSecrets) {
+      const at = text.indexOf(secret);
+      if (at === -1) continue;
+      taken.push([at, at + secret.length]);
+      findings.push({ path, line, rule: "known-secret", label: "Uma das suas chaves (IA ou GitHub)", preview: preview(secret) });
+    }
+
+    for (const rule of RULES) {
+      for (const match of text.matchAll(rule.pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (overlaps(start, end) || (rule.confirm && !rule.confirm(match[0]))) continue;
+        taken.push([start, end]);
+        findings.push({ path, line, rule: rule.id, label: rule.label, preview: preview(match[1] || match[0]) });
+      }
+    }
+  });
+
+  return findings;
+}
+
+// Only lines a change adds are reported: a credential the file already had
+// isn't the agent's doing and mustn't block every edit to it. `original` is
+// the file before the change (null for new files).
+export function scanChanges(
+  changes: { path: string; content?: string | null; original?: string | null }[],
+  known: (string | null | undefined)[] = []
+): SecretFinding[] {
+  return changes.flatMap((c) => {
+    // Deletes (and renames that keep the content) have nothing new to scan
+    if (c.content == null) return [];
+    const before = new Set(c.original?.split("\n") ?? []);
+    const lines = c.content.split("\n");
+    return scanForSecrets(c.path, c.content, known).filter((f) => !before.has(lines[f.line - 1]));
+  });
+}
+
+// Chat message explaining why nothing was committed
+export function describeFindings(findings: SecretFinding[]): string {
+  const lines = findings.map((f) => `• \`${f.path}\` linha ${f.line}: ${f.label} (${f.preview})`);
+  return `🔐 Nada foi commitado: ${findings.length === 1 ? "encontrei algo" : `encontrei ${findings.length} coisas`} com cara de credencial nas mudanças.\n\n${lines.join("\n")}\n\nGuarde chaves em variáveis de ambiente ou nos secrets do provedor, nunca no código.`;
+}
@@ -0,0 +1,12 @@
+// Secrets are stored encrypted (see the encrypt_secret/decrypt_secret SQL
+// functions); only the service role may call decrypt_secret.
+interface RpcClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: unknown }>;
+}
+
+export async function decryptSecret(sb: RpcClient, secret: string | null): Promise<string | null> {
+  if (!secret) return null;
+  const { data, error } = await sb.rpc("decrypt_secret", { secret });
+  if (error) throw { status: 500, message: "Não foi possível ler um segredo armazenado." };
+  return data as string | null;
+}
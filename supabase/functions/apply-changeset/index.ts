@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  getBranchHead, getRepoTree, publishChanges, commitSummary, describeConflicts, type ConflictError,
+} from "../_shared/github.ts";
+import { loadRepository } from "../_shared/repository.ts";
+import { assertOwner } from "../_shared/auth.ts";
+import { checkPathPolicy, describeViolations } from "../_shared/pathPolicy.ts";
+import { scanChanges, describeFindings } from "../_shared/secretScan.ts";
+import { decryptSecret } from "../_shared/secrets.ts";
+import { changeEntry, type FileAction, type FileChange } from "../_shared/changes.ts";
+
+interface ChangesetFile {
+  path: string;
+  action: FileAction;
+  // Renames only (absent on older rows)
+  previous_path?: string | null;
+  original: string | null;
+  // null for deletes and for renames that keep the content
+  content: string | null;
+  // Blob of previous_path ?? path when the changes were proposed
+  base_sha: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const body = await req.json();
+    const { changeset_id } = body;
+    if (!changeset_id) throw { status: 400, message: "Missing required parameters" };
+
+    const { sb, userId, repo } = await loadRepository(req, body);
+    const { repo_owner, repo_name, github_token } = repo;
+
+    const { data } = await sb
+      .from("pending_changesets")
+      .select("*")
+      .eq("id", changeset_id)
+      .eq("repository_id", repo.id)
+      .maybeSingle();
+    const changeset = assertOwner(data, userId, "Changeset");
+    const notPending = (status: string) => new Response(
+      JSON.stringify({
+        error: status === "applying"
+          ? "Este changeset já está sendo aplicado."
+          : `Este changeset já foi ${status === "applied" ? "aplicado" : "descartado"}.`,
+      }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+    if (changeset.status !== "pending") return notPending(changeset.status);
+
+    // The path policy may have been tightened since the changes were proposed
+    const files = changeset.changes as ChangesetFile[];
+    const changes: FileChange[] = files.map((f) => ({
+      action: f.action,
+      path: f.path,
+      ...(f.previous_path ? { previous_path: f.previous_path } : {}),
+      ...(f.content !== null ? { content: f.content } : {}),
+    }));
+    const violations = checkPathPolicy(repo, changes);
+    if (violations.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "As mudanças violam a política de caminhos do repositório.", violations, response: describeViolations(violations) }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The user may have edited the content during review, so scan it again
+    const { data: profile } = await sb.from("profiles").select("ai_api_key").eq("user_id", userId).maybeSingle();
+    const aiApiKey = await decryptSecret(sb, profile?.ai_api_key ?? null);
+    const findings = scanChanges(files, [aiApiKey, github_token]);
+    if (findings.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "As mudanças contêm credenciais.", findings, response: describeFindings(findings) }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The branch may have moved since the changes were proposed: every file
+    // must still be at the blob the model read (or still absent, for creates),
+    // and a rename's new path must still be free
+    const headSha = await getBranchHead(repo_owner, repo_name, changeset.branch, github_token);
+    const tree = await getRepoTree(repo_owner, repo_name, headSha, github_token);
+    const blobs: { path: string; mode: string; sha: string }[] =
+      tree.tree?.filter((f: { type: string }) => f.type === "blob") || [];
+    const currentShas = new Map(blobs.map((f) => [f.path, f.sha]));
+    const fileModes = new Map(blobs.map((f) => [f.path, f.mode]));
+
+    const conflicts = files
+      .filter((f) =>
+        (currentShas.get(f.previous_path ?? f.path) ?? null) !== f.base_sha ||
+        (f.previous_path && currentShas.has(f.path))
+      )
+      .map((f) => f.path);
+    const conflictResponse = (paths: string[]) => new Response(
+      JSON.stringify({
+        error: `A branch ${changeset.branch} mudou desde a proposta. Arquivos em conflito: ${paths.join(", ")}`,
+        conflicts: paths,
+        response: describeConflicts(changeset.branch, paths),
+      }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+    if (conflicts.length > 0) return conflictResponse(conflicts);
+
+    // Claim the changeset before publishing: of two concurrent applies (a
+    // double click, two tabs) only one gets the row back
+    const { data: claimed } = await sb
+      .from("pending_changesets")
+      .update({ status: "applying" })
+      .eq("id", changeset_id)
+      .eq("status", "pending")
+      .select("id");
+    if (claimed?.length !== 1) {
+      const { data: current } = await sb.from("pending_changesets").select("status").eq("id", changeset_id).maybeSingle();
+      return notPending(current?.status ?? "applying");
+    }
+
+    const filesChanged = changes.map(changeEntry);
+    let result;
+    try {
+      // Checked again at commit time, in case the branch moves after the check above
+      result = await publishChanges(
+        repo_owner, repo_name, changeset.branch,
+        repo.commit_mode === "pull_request",
+        changes, fileModes, changeset.commit_message,
+        changeset.explanation || changeset.commit_message, github_token,
+        { commitSha: headSha, blobShas: currentShas }
+      );
+    } catch (err) {
+      // Nothing was committed: hand the changeset back for another try
+      await sb.from("pending_changesets").update({ status: "pending" }).eq("id", changeset_id);
+      if ((err as ConflictError).code === "conflict") return conflictResponse((err as ConflictError).conflicts);
+      throw err;
+    }
+
+    await sb
+      .from("pending_changesets")
+      .update({ status: "applied", commit_sha: result.commitSha })
+      .eq("id", changeset_id);
+
+    return new Response(
+      JSON.stringify({
+        response: commitSummary(changeset.explanation, filesChanged, result),
+        files_changed: filesChanged,
+        commit_sha: result.commitSha,
+        commit_message: changeset.commit_message,
+        branch: result.branch,
+        pull_request_url: result.pullRequest?.html_url || null,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (e) {
+    console.error("apply-changeset error:", e);
+    const { status, message } = e as { status?: number; message?: string };
+    return new Response(
+      JSON.stringify({ error: message || "Unknown error" }),
+      { status: status || 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { runAgentLoop } from "./agentLoop.ts";
+import { createWorkspace } from "./tools.ts";
+import type { AiMessage, ChatResponse } from "../_shared/providers.ts";
+
+const REPO: Record<string, string> = { "src/App.tsx": "export const title = 'Demo';\n" };
+const workspace = () => createWorkspace(Object.keys(REPO), async (path) => REPO[path] ?? null);
+
+// A model reply calling one tool, spending `tokens`
+const toolCall = (name: string, args: Record<string, unknown>, tokens = 10): ChatResponse => ({
+  choices: [{
+    message: {
+      role: "assistant", content: null,
+      tool_calls: [{ id: `call-${name}`, type: "function", function: { name, arguments: JSON.stringify(args) } }],
+    },
+  }],
+  usage: { prompt_tokens: tokens, completion_tokens: 0, total_tokens: tokens },
+});
+
+const text = (content: string): ChatResponse => ({ choices: [{ message: { role: "assistant", content } }] });
+
+describe("runAgentLoop", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("runs tools until the model calls finish", async () => {
+    const replies = [
+      toolCall("read_file", { path: "src/App.tsx" }),
+      toolCall("write_file", { path: "src/App.tsx", edits: [{ search: "Demo", replace: "Hello" }] }),
+      toolCall("finish", { explanation: "Troquei o título", commit_message: "fix: title" }),
+    ];
+    const ws = workspace();
+    const messages: AiMessage[] = [];
+    const result = await runAgentLoop(ws, messages, async () => replies.shift()!, () => {});
+
+    expect(result.exhausted).toBeNull();
+    expect(result.toolCalls.map((c) => [c.tool, c.ok])).toEqual([["read_file", true], ["write_file", true], ["finish", true]]);
+    expect(ws.staged()).toEqual([{ action: "update", path: "src/App.tsx", content: "export const title = 'Hello';\n" }]);
+    expect(messages.filter((m) => m.role === "tool")).toHaveLength(3);
+  });
+
+  it("stops on a plain answer when nothing was changed", async () => {
+    const result = await runAgentLoop(workspace(), [], async () => text("Já está azul."), () => {});
+    expect(result).toEqual({ toolCalls: [], finalText: "Já está azul.", exhausted: null });
+  });
+
+  it("asks for finish when the model answers in text after editing", async () => {
+    const replies = [
+      toolCall("write_file", { path: "src/New.ts", content: "export {};\n" }),
+      text("Pronto"),
+      toolCall("finish", { explanation: "Criei", commit_message: "feat: new" }),
+    ];
+    const messages: AiMessage[] = [];
+    const result = await runAgentLoop(workspace(), messages, async () => replies.shift()!, () => {});
+    expect(result.exhausted).toBeNull();
+    expect(messages).toContainEqual({ role: "user", content: "Chame finish para concluir as mudanças que você fez." });
+  });
+
+  it("stops at the step limit", async () => {
+    const callModel = vi.fn(async () => toolCall("list_dir", {}));
+    const result = await runAgentLoop(workspace(), [], callModel, () => {}, { steps: 3, tokens: 1000 });
+    expect(result.exhausted).toBe("3 passos");
+    expect(callModel).toHaveBeenCalledTimes(3);
+    expect(result.toolCalls).toHaveLength(3);
+  });
+
+  it("stops at the token limit", async () => {
+    const callModel = vi.fn(async () => toolCall("list_dir", {}, 400));
+    const result = await runAgentLoop(workspace(), [], callModel, () => {}, { steps: 25, tokens: 1000 });
+    expect(result.exhausted).toBe("1000 tokens");
+    expect(callModel).toHaveBeenCalledTimes(3);
+  });
+});
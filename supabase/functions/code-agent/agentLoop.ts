@@ -0,0 +1,76 @@
+// The tool-calling loop of code mode: the model explores and edits the
+// workspace until it calls `finish`, answers without tools, or runs out of
+// steps or tokens. Kept free of URL imports so it can be unit tested.
+import type { AiMessage, AiToolCall, ChatResponse } from "../_shared/providers.ts";
+import type { Workspace } from "./tools.ts";
+
+// Budgets for the tool-calling loop of a single request
+export const MAX_AGENT_STEPS = 25;
+export const MAX_AGENT_TOKENS = 300_000;
+
+export type Emit = (event: string, data: Record<string, unknown>) => void;
+
+export interface ToolCallRecord {
+  tool: string;
+  summary: string;
+  ok: boolean;
+}
+
+export interface AgentLoopResult {
+  toolCalls: ToolCallRecord[];
+  // The model's last plain answer, for when it stops without calling finish
+  finalText: string;
+  // The budget that ran out ("25 passos"), null when the model stopped on its own
+  exhausted: string | null;
+}
+
+export async function runAgentLoop(
+  workspace: Workspace,
+  messages: AiMessage[],
+  callModel: (messages: AiMessage[]) => Promise<ChatResponse>,
+  emit: Emit,
+  limits = { steps: MAX_AGENT_STEPS, tokens: MAX_AGENT_TOKENS }
+): Promise<AgentLoopResult> {
+  const toolCalls: ToolCallRecord[] = [];
+  let tokensUsed = 0;
+  let finalText = "";
+
+  for (let step = 0; !workspace.finished(); step++) {
+    if (step >= limits.steps || tokensUsed >= limits.tokens) {
+      console.log(`[CODE MODE] Budget exhausted after ${step} steps / ${tokensUsed} tokens`);
+      const exhausted = step >= limits.steps ? `${limits.steps} passos` : `${limits.tokens} tokens`;
+      return { toolCalls, finalText, exhausted };
+    }
+
+    emit("step", { step: "thinking", message: `Pensando... (passo ${step + 1})` });
+    const data = await callModel(messages);
+    tokensUsed += data.usage?.total_tokens || 0;
+
+    const answer = data.choices?.[0]?.message || { role: "assistant", content: null };
+    const calls: AiToolCall[] = answer.tool_calls || [];
+    messages.push({ role: "assistant", content: answer.content ?? null, ...(calls.length ? { tool_calls: calls } : {}) });
+
+    if (calls.length === 0) {
+      // A plain answer means the model has nothing to change (or is asking something back)
+      finalText = answer.content || "";
+      if (workspace.staged().length === 0) break;
+      messages.push({ role: "user", content: "Chame finish para concluir as mudanças que você fez." });
+      continue;
+    }
+
+    for (const call of calls) {
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(call.function.arguments || "{}");
+      } catch { /* handled as a bad call below */ }
+
+      const result = await workspace.execute(call.function.name, args);
+      const record = { tool: call.function.name, summary: result.summary, ok: result.ok };
+      toolCalls.push(record);
+      emit("tool", record);
+      messages.push({ role: "tool", tool_call_id: call.id, content: result.output });
+    }
+  }
+
+  return { toolCalls, finalText, exhausted: null };
+}
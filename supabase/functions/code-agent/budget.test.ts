@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { budgetLimits, createBudget, type BudgetExhausted, type BudgetLimits } from "./budget.ts";
+import type { ServiceClient } from "../_shared/repository.ts";
+
+const NO_LIMITS: BudgetLimits = { monthly_budget_usd: null, monthly_token_limit: null, hourly_request_limit: null };
+const own = (value: number) => ({ value, adjustable: true });
+
+// start_ai_request answers `started`; usage_since answers whatever `monthly` holds at the time
+function fakeSupabase(started: Record<string, unknown>, monthly: Record<string, unknown> = {}) {
+  const calls: [string, Record<string, unknown>][] = [];
+  const sb = {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      calls.push([name, args]);
+      return { data: [name === "start_ai_request" ? started : { ...monthly }], error: null };
+    },
+  };
+  return { sb: sb as unknown as ServiceClient, calls };
+}
+
+const ALLOWED = { allowed: true, requests: 1 };
+
+async function rejection(promise: Promise<unknown>): Promise<BudgetExhausted> {
+  try {
+    await promise;
+  } catch (e) {
+    return e as BudgetExhausted;
+  }
+  throw new Error("expected a rejection");
+}
+
+describe("budgetLimits", () => {
+  it("parses profile values, strings included, and drops invalid ones", () => {
+    expect(budgetLimits({ monthly_budget_usd: "5.50", monthly_token_limit: "0", hourly_request_limit: null }, null)).toEqual({
+      monthly_budget_usd: own(5.5), monthly_token_limit: own(0), hourly_request_limit: null,
+    });
+    expect(budgetLimits({ monthly_budget_usd: -1, monthly_token_limit: "abc", hourly_request_limit: "" }, null)).toEqual(NO_LIMITS);
+    expect(budgetLimits(null, null)).toEqual(NO_LIMITS);
+  });
+
+  it("applies the lower of the user's limit and the account cap", () => {
+    const limits = budgetLimits(
+      { monthly_budget_usd: "10", monthly_token_limit: null, hourly_request_limit: 20 },
+      { monthly_budget_usd: "5", monthly_token_limit: 1000, hourly_request_limit: 60 }
+    );
+    expect(limits).toEqual({
+      monthly_budget_usd: { value: 5, adjustable: false },
+      monthly_token_limit: { value: 1000, adjustable: false },
+      hourly_request_limit: own(20),
+    });
+  });
+
+  it("keeps the account cap when the user clears their own limit", () => {
+    expect(budgetLimits({ hourly_request_limit: null }, { hourly_request_limit: 60 }).hourly_request_limit)
+      .toEqual({ value: 60, adjustable: false });
+  });
+});
+
+describe("createBudget", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-15T12:00:00Z"));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records every request, and doesn't read usage when there are no monthly limits", async () => {
+    const { sb, calls } = fakeSupabase(ALLOWED);
+    const budget = await createBudget(sb, "u1", NO_LIMITS);
+    await expect(budget.check()).resolves.toBeUndefined();
+    expect(calls).toEqual([["start_ai_request", { p_user_id: "u1", p_hourly_limit: undefined }]]);
+  });
+
+  it("refuses the request when the database says the hourly cap is reached", async () => {
+    const { sb, calls } = fakeSupabase({ allowed: false, requests: "3" });
+    const error = await rejection(createBudget(sb, "u1", { ...NO_LIMITS, hourly_request_limit: own(3) }));
+    expect(calls).toEqual([["start_ai_request", { p_user_id: "u1", p_hourly_limit: 3 }]]);
+    expect(error).toMatchObject({
+      status: 402,
+      code: "budget_exhausted",
+      budget: { kind: "requests", limit: 3, used: 3, resets_at: "2026-03-15T13:00:00.000Z", adjustable: true },
+    });
+  });
+
+  it("lets the request through under the hourly cap", async () => {
+    const { sb } = fakeSupabase({ allowed: true, requests: 3 });
+    await expect(createBudget(sb, "u1", { ...NO_LIMITS, hourly_request_limit: own(3) })).resolves.toBeDefined();
+  });
+
+  it("reads this month's totals before every call, so other requests' spending counts", async () => {
+    const monthly: Record<string, unknown> = { tokens: "900", cost_usd: "4.00" };
+    const { sb, calls } = fakeSupabase(ALLOWED, monthly);
+    const budget = await createBudget(sb, "u1", { ...NO_LIMITS, monthly_budget_usd: own(5), monthly_token_limit: own(1000) });
+
+    await expect(budget.check()).resolves.toBeUndefined();
+    expect(calls[1]).toEqual(["usage_since", { p_user_id: "u1", p_since: "2026-03-01T00:00:00.000Z" }]);
+    monthly.tokens = "1000";
+    await expect(budget.check()).rejects.toMatchObject({
+      budget: { kind: "tokens", limit: 1000, used: 1000, resets_at: "2026-04-01T00:00:00.000Z" },
+    });
+    monthly.tokens = "0";
+    monthly.cost_usd = "5.25";
+    await expect(budget.check()).rejects.toMatchObject({ budget: { kind: "cost", used: 5.25 } });
+  });
+
+  it("blocks everything with a zero limit and says when it's the account's", async () => {
+    const { sb } = fakeSupabase(ALLOWED);
+    const budget = await createBudget(sb, "u1", { ...NO_LIMITS, monthly_budget_usd: { value: 0, adjustable: false } });
+    await expect(budget.check()).rejects.toMatchObject({
+      message: "Você atingiu seu limite mensal de US$ 0.00 (usado: US$ 0.00). Esse é o limite da sua conta.",
+    });
+  });
+
+  it("fails closed when usage can't be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const sb = { rpc: async () => ({ data: null, error: { message: "boom" } }) } as unknown as ServiceClient;
+    const error = await rejection(createBudget(sb, "u1", { ...NO_LIMITS, hourly_request_limit: own(3) }));
+    expect(error).toEqual({ status: 500, message: "Não foi possível verificar seus limites de uso." });
+  });
+});
@@ -0,0 +1,115 @@
+// Per-user guardrails: a monthly budget in US$ and/or tokens and a cap on
+// requests per hour. Each comes from the user's own profile and from the
+// account caps in account_limits (set by an admin); the lower one applies.
+// A NULL limit means no limit.
+import type { ServiceClient } from "../_shared/repository.ts";
+
+const LIMIT_KEYS = ["monthly_budget_usd", "monthly_token_limit", "hourly_request_limit"] as const;
+
+export interface BudgetLimit {
+  value: number;
+  // false for an account cap, which the user can't raise from the profile
+  adjustable: boolean;
+}
+
+export type BudgetLimits = Record<(typeof LIMIT_KEYS)[number], BudgetLimit | null>;
+
+// NUMERIC/BIGINT columns come back as strings; anything that isn't a
+// non-negative number is treated as no limit. 0 blocks every request.
+function parseLimit(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function budgetLimits(
+  profile: Record<string, unknown> | null,
+  account: Record<string, unknown> | null
+): BudgetLimits {
+  const limits = {} as BudgetLimits;
+  for (const key of LIMIT_KEYS) {
+    const own = parseLimit(profile?.[key]);
+    const cap = parseLimit(account?.[key]);
+    limits[key] = cap !== null && (own === null || cap <= own)
+      ? { value: cap, adjustable: false }
+      : own === null ? null : { value: own, adjustable: true };
+  }
+  return limits;
+}
+
+export type BudgetKind = "cost" | "tokens" | "requests";
+
+// Thrown like the other `{ status, message }` errors; `code` and `budget`
+// let the client tell it apart and link to the limits in the profile
+export interface BudgetExhausted {
+  status: 402;
+  code: "budget_exhausted";
+  message: string;
+  budget: { kind: BudgetKind; limit: number; used: number; resets_at: string; adjustable: boolean };
+}
+
+function exhausted(kind: BudgetKind, { value: limit, adjustable }: BudgetLimit, used: number, resetsAt: Date): BudgetExhausted {
+  const message = {
+    cost: `Você atingiu seu limite mensal de US$ ${limit.toFixed(2)} (usado: US$ ${used.toFixed(2)}).`,
+    tokens: `Você atingiu seu limite mensal de ${limit.toLocaleString("pt-BR")} tokens (usado: ${used.toLocaleString("pt-BR")}).`,
+    requests: `Você atingiu o limite de ${limit} pedidos por hora.`,
+  }[kind];
+  return {
+    status: 402,
+    code: "budget_exhausted",
+    message: adjustable ? message : `${message} Esse é o limite da sua conta.`,
+    budget: { kind, limit, used, resets_at: resetsAt.toISOString(), adjustable },
+  };
+}
+
+async function usageSince(sb: ServiceClient, userId: string, since: Date) {
+  const { data, error } = await sb.rpc("usage_since", { p_user_id: userId, p_since: since.toISOString() });
+  if (error) {
+    console.error("usage_since error:", error);
+    throw { status: 500, message: "Não foi possível verificar seus limites de uso." };
+  }
+  const row = data?.[0];
+  return {
+    tokens: Number(row?.tokens || 0),
+    cost_usd: Number(row?.cost_usd || 0),
+  };
+}
+
+// Records the request against the hourly cap right away (atomically, in the
+// database, so concurrent requests can't all slip under it). `check()` then
+// reads this month's totals before every model call: usage is written after
+// each call, so the spending of concurrent requests counts too.
+export async function createBudget(sb: ServiceClient, userId: string, limits: BudgetLimits) {
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const { data, error } = await sb.rpc("start_ai_request", {
+    p_user_id: userId,
+    p_hourly_limit: limits.hourly_request_limit?.value,
+  });
+  const started = data?.[0];
+  if (error || !started) {
+    console.error("start_ai_request error:", error);
+    throw { status: 500, message: "Não foi possível verificar seus limites de uso." };
+  }
+  if (!started.allowed && limits.hourly_request_limit !== null) {
+    throw exhausted("requests", limits.hourly_request_limit, Number(started.requests), new Date(now.getTime() + 60 * 60 * 1000));
+  }
+
+  return {
+    // Called before every model call
+    async check() {
+      if (limits.monthly_budget_usd === null && limits.monthly_token_limit === null) return;
+      const { cost_usd: cost, tokens } = await usageSince(sb, userId, monthStart);
+      if (limits.monthly_budget_usd !== null && cost >= limits.monthly_budget_usd.value) {
+        throw exhausted("cost", limits.monthly_budget_usd, cost, nextMonth);
+      }
+      if (limits.monthly_token_limit !== null && tokens >= limits.monthly_token_limit.value) {
+        throw exhausted("tokens", limits.monthly_token_limit, tokens, nextMonth);
+      }
+    },
+  };
+}
+
+export type Budget = Awaited<ReturnType<typeof createBudget>>;
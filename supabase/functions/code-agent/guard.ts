@@ -0,0 +1,57 @@
+// Defences against repository content steering the agent (prompt injection):
+// spotting instruction-like phrasing in files, and flagging edits the user's
+// request doesn't seem to be about so they wait for confirmation.
+import { matchesAny } from "../_shared/glob.ts";
+
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules?|directions?)/i,
+  /\b(?:ignor[ea]|desconsider[ea]|esque[çc][ae])\b[^.\n]{0,40}\b(?:instru[çc](?:ões|oes|ão|ao)|regras|prompt)/i,
+  /\byou are now\b|\bvocê agora é\b|\ba partir de agora,? você\b/i,
+  /\b(?:system prompt|prompt do sistema)\b/i,
+  /<\/?(?:system|assistant|instructions?)>|\[\/?(?:INST|SYSTEM)\]/i,
+  /\b(?:new|updated|real) instructions\s*:|\bnovas instruções\s*:/i,
+  /\b(?:do not|don't|never|não)\s+(?:tell|inform|mention|reveal|conte|avise|mencione|revele)\b[^.\n]{0,30}\b(?:the user|o usuário|ao usuário)/i,
+];
+
+// Paths an edit rarely needs to touch unless the user asked for it
+const SENSITIVE_GLOBS = [
+  ".github/**", ".env*", "*.lock", "package-lock.json", "package.json", "supabase/migrations/**",
+  "supabase/config.toml", "Dockerfile", ".npmrc", ".jtccod.*", "AGENTS.md", "CLAUDE.md", "CONTRIBUTING.md",
+];
+
+// Snippets of `text` that read like instructions aimed at the model
+export function detectInjection(text: string): string[] {
+  const found: string[] = [];
+  for (const pattern of INJECTION_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) found.push(match[0].trim().slice(0, 80));
+  }
+  return found;
+}
+
+// Files of the tree the user's message names, by path or by file name
+export function mentionedPaths(message: string, files: string[]): string[] {
+  const text = message.toLowerCase();
+  return files.filter((path) => {
+    const lower = path.toLowerCase();
+    if (text.includes(lower)) return true;
+    const name = lower.split("/").pop()!;
+    const stem = name.replace(/\.[^.]+$/, "");
+    if (name.length >= 5 && text.includes(name)) return true;
+    return stem.length >= 4 && new RegExp(`\\b${stem.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(text);
+  });
+}
+
+// Changed paths the request doesn't plausibly target: sensitive files nobody
+// named, or, when the user named files, anything outside their top-level folders
+export function offTargetChanges(message: string, changedPaths: string[], files: string[]): string[] {
+  const mentioned = mentionedPaths(message, [...new Set([...files, ...changedPaths])]);
+  const areas = new Set(mentioned.map((p) => (p.includes("/") ? p.split("/")[0] + "/" : "")));
+
+  return changedPaths.filter((path) => {
+    if (mentioned.includes(path)) return false;
+    if (matchesAny(path, SENSITIVE_GLOBS)) return true;
+    if (mentioned.length === 0 || areas.has("")) return false;
+    return ![...areas].some((area) => path.startsWith(area));
+  });
+}
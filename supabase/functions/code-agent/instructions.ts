@@ -0,0 +1,70 @@
+// Project instruction files (AGENTS.md and friends) found in the repository
+// tree. A file in a subdirectory applies to that subdirectory only.
+import { detectInjection } from "./guard.ts";
+
+// Rough token budget for all instruction files together in the system prompt
+const INSTRUCTIONS_TOKEN_BUDGET = 4_000;
+// Below this many tokens left, a file is skipped instead of truncated
+const MIN_USEFUL_TOKENS = 200;
+
+// In priority order when the budget is tight
+const INSTRUCTION_FILE_NAMES = ["AGENTS.md", "CLAUDE.md", ".github/copilot-instructions.md", "CONTRIBUTING.md"];
+const COPILOT_INSTRUCTIONS = ".github/copilot-instructions.md";
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface InstructionFile {
+  path: string;
+  // Directory the file applies to, "" for the whole repository
+  scope: string;
+  truncated: boolean;
+}
+
+// Root files first, then deeper ones; by file-name priority within a level
+function findInstructionFiles(files: string[]): { path: string; scope: string }[] {
+  const found: { path: string; scope: string; depth: number; rank: number }[] = [];
+  for (const path of files) {
+    const rank = INSTRUCTION_FILE_NAMES.findIndex((name) => path === name || path.endsWith(`/${name}`));
+    if (rank === -1) continue;
+    const scope = path.slice(0, path.length - INSTRUCTION_FILE_NAMES[rank].length);
+    // copilot-instructions.md only means something at the root
+    if (INSTRUCTION_FILE_NAMES[rank] === COPILOT_INSTRUCTIONS && scope) continue;
+    found.push({ path, scope, depth: scope.split("/").length, rank });
+  }
+  return found
+    .sort((a, b) => a.depth - b.depth || a.rank - b.rank || a.path.localeCompare(b.path))
+    .map(({ path, scope }) => ({ path, scope }));
+}
+
+// Reads the instruction files in priority order until the token budget runs
+// out. `text` is ready to append to the system prompt ("" when none apply).
+// Files that try to override the agent's rules are left out and listed in `rejected`.
+export async function loadInstructions(
+  files: string[],
+  readFile: (path: string) => Promise<string | null>
+): Promise<{ text: string; applied: InstructionFile[]; rejected: string[] }> {
+  const sections: string[] = [];
+  const applied: InstructionFile[] = [];
+  const rejected: string[] = [];
+  let remaining = INSTRUCTIONS_TOKEN_BUDGET;
+
+  for (const { path, scope } of findInstructionFiles(files)) {
+    if (remaining < MIN_USEFUL_TOKENS) break;
+    const content = (await readFile(path))?.trim();
+    if (!content) continue;
+    if (detectInjection(content).length > 0) {
+      rejected.push(path);
+      continue;
+    }
+
+    const truncated = estimateTokens(content) > remaining;
+    const body = truncated ? `${content.slice(0, remaining * 4)}\n[...truncado]` : content;
+    remaining -= estimateTokens(body);
+
+    const header = scope ? `### ${path} (vale só para arquivos em ${scope})` : `### ${path}`;
+    sections.push(`${header}\n${body}`);
+    applied.push({ path, scope, truncated });
+  }
+
+  return { text: sections.join("\n\n"), applied, rejected };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { applySearchReplace, resolveChanges } from "./patch.ts";
+
+describe("applySearchReplace", () => {
+  it("replaces a unique snippet", () => {
+    const result = applySearchReplace("a\nb\nc\n", [{ search: "b\n", replace: "B\n" }]);
+    expect(result).toEqual({ content: "a\nB\nc\n", failures: [] });
+  });
+
+  it("rejects a snippet that isn't in the file", () => {
+    const result = applySearchReplace("a\nb\n", [{ search: "x", replace: "y" }]);
+    expect(result.content).toBe("a\nb\n");
+    expect(result.failures).toEqual(['edit #1: o trecho "search" não foi encontrado exatamente no arquivo']);
+  });
+
+  it("rejects an ambiguous snippet", () => {
+    const result = applySearchReplace("x = 1\nx = 1\n", [{ search: "x = 1", replace: "x = 2" }]);
+    expect(result.content).toBe("x = 1\nx = 1\n");
+    expect(result.failures).toEqual(['edit #1: o trecho "search" aparece 2 vezes; inclua mais linhas de contexto']);
+  });
+
+  it("rejects an empty search", () => {
+    expect(applySearchReplace("a", [{ search: "", replace: "b" }]).failures).toEqual(['edit #1: "search" está vazio']);
+  });
+
+  it("matches and keeps CRLF line endings", () => {
+    const result = applySearchReplace("one\r\ntwo\r\nthree\r\n", [{ search: "one\ntwo\n", replace: "1\n2\n" }]);
+    expect(result).toEqual({ content: "1\r\n2\r\nthree\r\n", failures: [] });
+  });
+
+  it("applies edits in order and reports each failure by position", () => {
+    const result = applySearchReplace("a b c", [
+      { search: "a", replace: "x" },
+      { search: "zzz", replace: "y" },
+      { search: "x b", replace: "x B" },
+    ]);
+    expect(result.content).toBe("x B c");
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatch(/^edit #2:/);
+  });
+});
+
+describe("resolveChanges", () => {
+  const files: Record<string, string> = { "src/app.ts": "const a = 1;\n" };
+  const readFile = async (path: string) => files[path] ?? null;
+
+  it("creates new files and patches existing ones", async () => {
+    const result = await resolveChanges([
+      { path: "src/new.ts", action: "create", content: "export {};\n" },
+      { path: "src/app.ts", action: "update", edits: [{ search: "= 1", replace: "= 2" }] },
+    ], readFile);
+    expect(result).toEqual({
+      files: [{ path: "src/new.ts", content: "export {};\n" }, { path: "src/app.ts", content: "const a = 2;\n" }],
+      failures: [],
+    });
+  });
+
+  it("refuses to create a file that already exists", async () => {
+    const result = await resolveChanges([{ path: "src/app.ts", action: "create", content: "x" }], readFile);
+    expect(result.files).toEqual([]);
+    expect(result.failures).toEqual(['src/app.ts: o arquivo já existe, use "update" com "edits"']);
+  });
+
+  it("refuses to update a file that doesn't exist", async () => {
+    const result = await resolveChanges(
+      [{ path: "src/missing.ts", action: "update", edits: [{ search: "a", replace: "b" }] }], readFile
+    );
+    expect(result.files).toEqual([]);
+    expect(result.failures).toEqual(["src/missing.ts: arquivo não encontrado no repositório"]);
+  });
+
+  it("refuses whole-file updates", async () => {
+    const result = await resolveChanges([{ path: "src/app.ts", action: "update", content: "const a = 3;\n" }], readFile);
+    expect(result.failures[0]).toMatch(/precisa de "edits"/);
+  });
+});
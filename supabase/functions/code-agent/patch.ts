@@ -0,0 +1,120 @@
+// Search/replace edit format used by the code model for "update" changes.
+// Each edit must quote an exact, unique snippet of the current file; anything
+// else is rejected so the model can be asked to try again.
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface ProposedChange {
+  path: string;
+  action: string;
+  content?: string;
+  edits?: SearchReplaceEdit[];
+}
+
+export interface PatchResult {
+  content: string;
+  failures: string[];
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let idx = haystack.indexOf(needle);
+  while (idx !== -1) {
+    count++;
+    idx = haystack.indexOf(needle, idx + needle.length);
+  }
+  return count;
+}
+
+export function applySearchReplace(original: string, edits: SearchReplaceEdit[]): PatchResult {
+  // The model always answers with "\n"; match the file's own line endings
+  const eol = original.includes("\r\n") ? "\r\n" : "\n";
+  const normalize = (text: string) => (eol === "\n" ? text : text.replace(/\r?\n/g, eol));
+
+  let content = original;
+  const failures: string[] = [];
+
+  edits.forEach((edit, i) => {
+    const label = `edit #${i + 1}`;
+    if (typeof edit?.search !== "string" || typeof edit?.replace !== "string") {
+      failures.push(`${label}: "search" e "replace" precisam ser strings`);
+      return;
+    }
+    if (edit.search.length === 0) {
+      failures.push(`${label}: "search" está vazio`);
+      return;
+    }
+
+    const search = normalize(edit.search);
+    const occurrences = countOccurrences(content, search);
+    if (occurrences === 0) {
+      failures.push(`${label}: o trecho "search" não foi encontrado exatamente no arquivo`);
+      return;
+    }
+    if (occurrences > 1) {
+      failures.push(`${label}: o trecho "search" aparece ${occurrences} vezes; inclua mais linhas de contexto`);
+      return;
+    }
+
+    const idx = content.indexOf(search);
+    content = content.slice(0, idx) + normalize(edit.replace) + content.slice(idx + search.length);
+  });
+
+  return { content, failures };
+}
+
+// Turns the model's proposed changes into full file contents ready to commit.
+// `readFile` returns the current content of an existing file, or null.
+export async function resolveChanges(
+  changes: ProposedChange[],
+  readFile: (path: string) => Promise<string | null>
+): Promise<{ files: { path: string; content: string }[]; failures: string[] }> {
+  const files: { path: string; content: string }[] = [];
+  const failures: string[] = [];
+
+  for (const change of changes) {
+    if (!change?.path) {
+      failures.push(`mudança sem "path"`);
+      continue;
+    }
+
+    if (change.action === "create") {
+      if (typeof change.content !== "string" || change.content.length === 0) {
+        failures.push(`${change.path}: "create" precisa do "content" completo do arquivo`);
+        continue;
+      }
+      if ((await readFile(change.path)) !== null) {
+        failures.push(`${change.path}: o arquivo já existe, use "update" com "edits"`);
+        continue;
+      }
+      files.push({ path: change.path, content: change.content });
+      continue;
+    }
+
+    if (change.action === "update") {
+      if (!Array.isArray(change.edits) || change.edits.length === 0) {
+        failures.push(`${change.path}: "update" precisa de "edits" com search/replace, não do arquivo inteiro`);
+        continue;
+      }
+      const current = await readFile(change.path);
+      if (current === null) {
+        failures.push(`${change.path}: arquivo não encontrado no repositório`);
+        continue;
+      }
+      const result = applySearchReplace(current, change.edits);
+      if (result.failures.length > 0) {
+        failures.push(...result.failures.map((f) => `${change.path}: ${f}`));
+        continue;
+      }
+      files.push({ path: change.path, content: result.content });
+      continue;
+    }
+
+    failures.push(`${change.path}: ação "${change.action}" não suportada`);
+  }
+
+  return { files, failures };
+}
@@ -0,0 +1,102 @@
+// Optional per-repository agent settings, read from `.jtccod.json` (or
+// `.jtccod.yml`) at the repository root. Example:
+//
+//   {
+//     "project_type": "vite-react",
+//     "language": "en",
+//     "protected": ["package.json", "supabase/migrations/**"],
+//     "ignore": ["dist/", "*.lock"],
+//     "commit_convention": "Conventional Commits (feat:, fix:, chore:)",
+//     "commands": { "build": "npm run build", "test": "npm test" },
+//     "instructions": "Use Tailwind classes, never inline styles."
+//   }
+//
+// Every field is optional. `protected` replaces the default list when present.
+// `protected` and `ignore` hold globs with gitignore's rules (see glob.ts):
+// `dist/` and `package.json` match at any depth, `/package.json` only at the root.
+import { parse as parseYaml } from "https://deno.land/std@0.168.0/encoding/yaml.ts";
+import { validateRepoConfig, type RepoConfigFile } from "./repoConfigSchema.ts";
+
+export const CONFIG_FILES = [".jtccod.json", ".jtccod.yml", ".jtccod.yaml"];
+
+export const DEFAULT_PROTECTED = [
+  "package.json", "index.html", "tsconfig.json", "vite.config.ts", "vite.config.js", "tailwind.config.ts", "tailwind.config.js",
+];
+
+export interface RepoConfig {
+  project_type: string;
+  // Language for commit messages and code comments
+  language: string | null;
+  // Globs the agent may read but never write
+  protected: string[];
+  // Globs hidden from the agent altogether
+  ignore: string[];
+  commit_convention: string | null;
+  commands: { build: string | null; test: string | null };
+  // Appended to the code-model system prompt
+  instructions: string | null;
+}
+
+function detectProjectType(files: string[]): string {
+  const hasPackageJson = files.includes("package.json");
+  const hasViteConfig = files.some(f => f.includes("vite.config"));
+  const hasSrcFolder = files.some(f => f.startsWith("src/"));
+  const hasNextConfig = files.some(f => f.includes("next.config"));
+  
+  if (hasNextConfig) return "nextjs";
+  if (hasViteConfig && hasSrcFolder) return "vite-react";
+  if (hasPackageJson && hasSrcFolder) return "react";
+  if (files.includes("index.html")) return "static-html";
+  return "generic";
+}
+
+function defaults(files: string[]): RepoConfig {
+  return {
+    project_type: detectProjectType(files),
+    language: null,
+    protected: DEFAULT_PROTECTED,
+    ignore: [],
+    commit_convention: null,
+    commands: { build: null, test: null },
+    instructions: null,
+  };
+}
+
+// Reads the first config file present in `files`. An unreadable or invalid
+// file falls back to the defaults and its problems come back in `errors`.
+export async function loadRepoConfig(
+  files: string[],
+  readFile: (path: string) => Promise<string | null>
+): Promise<{ config: RepoConfig; source: string | null; errors: string[] }> {
+  const config = defaults(files);
+  const source = CONFIG_FILES.find((f) => files.includes(f)) ?? null;
+  if (!source) return { config, source, errors: [] };
+
+  const text = await readFile(source);
+  if (text === null) return { config, source, errors: ["Não consegui ler o arquivo."] };
+
+  let raw: unknown;
+  try {
+    raw = source.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    return { config, source, errors: [`${source.endsWith(".json") ? "JSON" : "YAML"} inválido: ${(e as Error).message}`] };
+  }
+
+  const errors = validateRepoConfig(raw);
+  if (errors.length > 0) return { config, source, errors };
+
+  const c = raw as RepoConfigFile;
+  return {
+    source,
+    errors,
+    config: {
+      project_type: c.project_type?.trim() || config.project_type,
+      language: c.language?.trim() || null,
+      protected: c.protected ?? config.protected,
+      ignore: c.ignore ?? [],
+      commit_convention: c.commit_convention?.trim() || null,
+      commands: { build: c.commands?.build?.trim() || null, test: c.commands?.test?.trim() || null },
+      instructions: c.instructions?.trim() || null,
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { validateRepoConfig } from "./repoConfigSchema.ts";
+
+describe("validateRepoConfig", () => {
+  it("accepts a full config, and nulls anywhere", () => {
+    expect(validateRepoConfig({
+      project_type: "vite-react",
+      language: "en",
+      protected: ["package.json", "supabase/migrations/**"],
+      ignore: [],
+      commit_convention: "Conventional Commits",
+      commands: { build: "npm run build", test: null },
+      instructions: null,
+    })).toEqual([]);
+    expect(validateRepoConfig({})).toEqual([]);
+  });
+
+  it("requires an object at the top", () => {
+    expect(validateRepoConfig(["package.json"])).toEqual(["O arquivo deve conter um objeto."]);
+    expect(validateRepoConfig("protected: x")).toEqual(["O arquivo deve conter um objeto."]);
+  });
+
+  it("reports wrong types with the field name", () => {
+    expect(validateRepoConfig({ language: 1, protected: "package.json", ignore: ["dist/", 2] })).toEqual([
+      '"language" deve ser um texto.',
+      '"protected" deve ser uma lista de textos.',
+      '"ignore" deve ser uma lista de textos.',
+    ]);
+  });
+
+  it("reports unknown options, nested ones included", () => {
+    expect(validateRepoConfig({ protect: [] })).toEqual([
+      '"protect" não é uma opção conhecida. Opções: project_type, language, protected, ignore, commit_convention, commands, instructions.',
+    ]);
+    expect(validateRepoConfig({ commands: { lint: "npm run lint", test: 1 } })).toEqual([
+      '"commands.lint" não é uma opção conhecida. Opções: build, test.',
+      '"commands.test" deve ser um texto.',
+    ]);
+  });
+
+  it("names a nested object without a trailing dot", () => {
+    expect(validateRepoConfig({ commands: "npm test" })).toEqual(['"commands" deve ser um objeto.']);
+  });
+});
@@ -0,0 +1,51 @@
+// Schema of .jtccod.json / .jtccod.yml (see repoConfig.ts). Kept free of URL
+// imports so it can be unit tested.
+
+// The file as written, once it passed validateRepoConfig
+export interface RepoConfigFile {
+  project_type?: string | null;
+  language?: string | null;
+  // Globs with gitignore's rules (see glob.ts)
+  protected?: string[] | null;
+  ignore?: string[] | null;
+  commit_convention?: string | null;
+  commands?: { build?: string | null; test?: string | null } | null;
+  instructions?: string | null;
+}
+
+type FieldType = "string" | "string[]";
+
+const SCHEMA: Record<string, FieldType | Record<string, FieldType>> = {
+  project_type: "string",
+  language: "string",
+  protected: "string[]",
+  ignore: "string[]",
+  commit_convention: "string",
+  commands: { build: "string", test: "string" },
+  instructions: "string",
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Returns one message per problem, in Portuguese, ready to show in the chat
+export function validateRepoConfig(raw: unknown, schema = SCHEMA, prefix = ""): string[] {
+  if (!isObject(raw)) return [prefix ? `"${prefix.replace(/\.$/, "")}" deve ser um objeto.` : "O arquivo deve conter um objeto."];
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const field = `${prefix}${key}`;
+    const type = schema[key];
+    if (!type) {
+      errors.push(`"${field}" não é uma opção conhecida. Opções: ${Object.keys(schema).join(", ")}.`);
+    } else if (value === null) {
+      continue;
+    } else if (isObject(type)) {
+      errors.push(...validateRepoConfig(value, type as typeof SCHEMA, `${field}.`));
+    } else if (type === "string" && typeof value !== "string") {
+      errors.push(`"${field}" deve ser um texto.`);
+    } else if (type === "string[]" && !(Array.isArray(value) && value.every((v) => typeof v === "string"))) {
+      errors.push(`"${field}" deve ser uma lista de textos.`);
+    }
+  }
+  return errors;
+}
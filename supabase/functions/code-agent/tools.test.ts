@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { createWorkspace, type WorkspaceOptions } from "./tools.ts";
+
+const REPO: Record<string, string> = {
+  "README.md": "# Demo\n",
+  "package.json": '{ "name": "demo" }\n',
+  "src/App.tsx": "import Header from './Header';\n\nexport default function App() {\n  return <Header />;\n}\n",
+  "src/Header.tsx": "export default function Header() {\n  return <h1>Demo</h1>;\n}\n",
+  "src/lib/long.ts": Array.from({ length: 1000 }, (_, i) => `export const v${i + 1} = ${i + 1};`).join("\n"),
+};
+
+function workspace(options?: WorkspaceOptions) {
+  const reads: string[] = [];
+  const ws = createWorkspace(Object.keys(REPO), async (path) => {
+    reads.push(path);
+    return REPO[path] ?? null;
+  }, { dataTag: "data", ...options });
+  return { ws, reads };
+}
+
+describe("read_file", () => {
+  it("returns numbered lines inside the data fence", async () => {
+    const { ws } = workspace();
+    const result = await ws.execute("read_file", { path: "src/Header.tsx" });
+    expect(result.ok).toBe(true);
+    expect(result.output).toBe(
+      "src/Header.tsx (linhas 1-4 de 4)\n<data>\n1: export default function Header() {\n2:   return <h1>Demo</h1>;\n3: }\n4: \n</data>"
+    );
+  });
+
+  it("reads line ranges and caps each call at 400 lines", async () => {
+    const { ws } = workspace();
+    expect((await ws.execute("read_file", { path: "src/lib/long.ts", start_line: 10, end_line: 12 })).summary)
+      .toBe("read_file src/lib/long.ts:10-12");
+    expect((await ws.execute("read_file", { path: "src/lib/long.ts" })).summary).toBe("read_file src/lib/long.ts:1-400");
+    expect((await ws.execute("read_file", { path: "src/lib/long.ts", start_line: 900, end_line: 5000 })).summary)
+      .toBe("read_file src/lib/long.ts:900-1000");
+  });
+
+  it("fails on files that don't exist", async () => {
+    const { ws } = workspace();
+    expect(await ws.execute("read_file", { path: "src/Nope.tsx" }))
+      .toEqual({ output: "Arquivo não encontrado: src/Nope.tsx", summary: "read_file src/Nope.tsx", ok: false });
+  });
+});
+
+describe("list_dir", () => {
+  it("lists files and folders directly inside a directory", async () => {
+    const { ws } = workspace();
+    expect((await ws.execute("list_dir", {})).output).toBe("README.md\npackage.json\nsrc/");
+    expect((await ws.execute("list_dir", { path: "./src/" })).output).toBe("App.tsx\nHeader.tsx\nlib/");
+    expect((await ws.execute("list_dir", { path: "docs" })).ok).toBe(false);
+  });
+
+  it("shows staged files", async () => {
+    const { ws } = workspace();
+    await ws.execute("write_file", { path: "src/lib/util.ts", content: "export {};\n" });
+    expect((await ws.execute("list_dir", { path: "src/lib" })).output).toBe("long.ts\nutil.ts");
+  });
+});
+
+describe("grep", () => {
+  it("finds matches case-insensitively within a path prefix", async () => {
+    const { ws } = workspace();
+    const result = await ws.execute("grep", { pattern: "header", path: "src/" });
+    expect(result.summary).toBe('grep "header" em src/ (3)');
+    expect(result.output).toContain("src/App.tsx:1: import Header from './Header';");
+  });
+
+  it("stops at 60 matches", async () => {
+    const { ws } = workspace();
+    expect((await ws.execute("grep", { pattern: "export const" })).summary).toBe('grep "export const" (60)');
+  });
+
+  it("refuses invalid or oversized patterns without reading anything", async () => {
+    const { ws, reads } = workspace();
+    expect((await ws.execute("grep", { pattern: "(" })).ok).toBe(false);
+    expect((await ws.execute("grep", { pattern: "a".repeat(201) })).ok).toBe(false);
+    expect(reads).toEqual([]);
+  });
+});
+
+describe("write_file", () => {
+  it("stages edits on top of earlier writes", async () => {
+    const { ws } = workspace();
+    await ws.execute("write_file", { path: "src/Header.tsx", edits: [{ search: "Demo", replace: "Hello" }] });
+    const second = await ws.execute("write_file", { path: "src/Header.tsx", edits: [{ search: "<h1>Hello", replace: "<h2>Hello" }] });
+    expect(second.ok).toBe(true);
+    expect(ws.staged()).toEqual([
+      { action: "update", path: "src/Header.tsx", content: "export default function Header() {\n  return <h2>Hello</h1>;\n}\n" },
+    ]);
+  });
+
+  it("creates new files from content and reads them back", async () => {
+    const { ws } = workspace();
+    await ws.execute("write_file", { path: "src/Footer.tsx", content: "export {};\n" });
+    expect((await ws.execute("read_file", { path: "src/Footer.tsx" })).ok).toBe(true);
+    expect(ws.staged()).toEqual([{ action: "create", path: "src/Footer.tsx", content: "export {};\n" }]);
+  });
+
+  it("refuses blocked paths and stages nothing", async () => {
+    const { ws } = workspace({ writeBlocked: (path) => (path === "package.json" ? "arquivo protegido" : null) });
+    const result = await ws.execute("write_file", { path: "package.json", edits: [{ search: "demo", replace: "x" }] });
+    expect(result).toEqual({ output: "Recusado: package.json - arquivo protegido.", summary: "write_file package.json 🔒", ok: false });
+    expect((await ws.execute("delete_file", { path: "package.json" })).ok).toBe(false);
+    expect((await ws.execute("rename_file", { path: "README.md", new_path: "package.json" })).ok).toBe(false);
+    expect(ws.staged()).toEqual([]);
+  });
+
+  it("treats ignored files as existing files", async () => {
+    const ws = createWorkspace(["src/app.ts", "dist/app.js"], async (path) => `// ${path}\n`, {
+      hidden: (path) => path.startsWith("dist/"),
+    });
+    expect((await ws.execute("list_dir", {})).output).toBe("src/");
+    expect((await ws.execute("grep", { pattern: "app" })).summary).toBe('grep "app" (1)');
+    expect((await ws.execute("write_file", { path: "dist/app.js", content: "x" })).ok).toBe(false);
+    await ws.execute("write_file", { path: "dist/app.js", edits: [{ search: "dist", replace: "build" }] });
+    expect(ws.staged()).toEqual([{ action: "update", path: "dist/app.js", content: "// build/app.js\n" }]);
+  });
+
+  it("reports failed edits and keeps the file as it was", async () => {
+    const { ws } = workspace();
+    const result = await ws.execute("write_file", { path: "src/Header.tsx", edits: [{ search: "nope", replace: "x" }] });
+    expect(result.ok).toBe(false);
+    expect(ws.staged()).toEqual([]);
+  });
+});
+
+describe("delete_file and rename_file", () => {
+  const header = REPO["src/Header.tsx"];
+
+  it("stages a rename, and edits go to the new path", async () => {
+    const { ws } = workspace();
+    await ws.execute("rename_file", { path: "src/Header.tsx", new_path: "src/components/Header.tsx" });
+    expect((await ws.execute("write_file", { path: "src/Header.tsx", edits: [{ search: "Demo", replace: "Hi" }] })).output)
+      .toBe("Recusado: src/Header.tsx foi renomeado para src/components/Header.tsx; edite src/components/Header.tsx.");
+    await ws.execute("write_file", { path: "src/components/Header.tsx", edits: [{ search: "Demo", replace: "Hi" }] });
+    expect(ws.staged()).toEqual([{
+      action: "rename", path: "src/components/Header.tsx", previous_path: "src/Header.tsx",
+      content: header.replace("Demo", "Hi"),
+    }]);
+    expect((await ws.execute("read_file", { path: "src/Header.tsx" })).ok).toBe(false);
+  });
+
+  it("moves an untouched file without its content, so the commit keeps the blob", async () => {
+    const { ws } = workspace();
+    await ws.execute("rename_file", { path: "src/Header.tsx", new_path: "src/components/Header.tsx" });
+    expect(ws.staged()).toEqual([{ action: "rename", path: "src/components/Header.tsx", previous_path: "src/Header.tsx" }]);
+    expect((await ws.execute("read_file", { path: "src/components/Header.tsx" })).output).toContain("1: export default function Header() {");
+    await ws.execute("rename_file", { path: "src/components/Header.tsx", new_path: "src/Header.tsx" });
+    expect(ws.staged()).toEqual([]);
+  });
+
+  it("renames files it can't read as text, but refuses to edit them", async () => {
+    // getFileContent has no text for binary or large files
+    const ws = createWorkspace(["assets/big.bin"], async () => null);
+    expect((await ws.execute("rename_file", { path: "assets/big.bin", new_path: "public/big.bin", content: "x" })).ok).toBe(false);
+    expect(ws.staged()).toEqual([]);
+    expect((await ws.execute("rename_file", { path: "assets/big.bin", new_path: "public/big.bin" })).ok).toBe(true);
+    expect(ws.staged()).toEqual([{ action: "rename", path: "public/big.bin", previous_path: "assets/big.bin" }]);
+  });
+
+  it("deletes the original when a renamed file is deleted", async () => {
+    const { ws } = workspace();
+    await ws.execute("rename_file", { path: "src/Header.tsx", new_path: "src/components/Header.tsx" });
+    await ws.execute("delete_file", { path: "src/components/Header.tsx" });
+    expect(ws.staged()).toEqual([{ action: "delete", path: "src/Header.tsx" }]);
+  });
+
+  it("turns a rename back to the original path into an edit", async () => {
+    const { ws } = workspace();
+    await ws.execute("rename_file", {
+      path: "src/Header.tsx", new_path: "src/components/Header.tsx", edits: [{ search: "Demo", replace: "Hi" }],
+    });
+    const back = await ws.execute("rename_file", { path: "src/components/Header.tsx", new_path: "src/Header.tsx" });
+    expect(back.ok).toBe(true);
+    expect(ws.staged()).toEqual([{ action: "update", path: "src/Header.tsx", content: header.replace("Demo", "Hi") }]);
+  });
+
+  it("drops a file that was created and then deleted", async () => {
+    const { ws } = workspace();
+    await ws.execute("write_file", { path: "src/Footer.tsx", content: "export {};\n" });
+    await ws.execute("rename_file", { path: "src/Footer.tsx", new_path: "src/components/Footer.tsx" });
+    expect(ws.staged()).toEqual([{ action: "create", path: "src/components/Footer.tsx", content: "export {};\n" }]);
+    await ws.execute("delete_file", { path: "src/components/Footer.tsx" });
+    expect(ws.staged()).toEqual([]);
+  });
+
+  it("refuses to rename onto an existing file", async () => {
+    const { ws } = workspace();
+    expect((await ws.execute("rename_file", { path: "src/Header.tsx", new_path: "src/App.tsx" })).ok).toBe(false);
+    expect(ws.staged()).toEqual([]);
+  });
+});
+
+describe("finish", () => {
+  it("records the explanation and commit message", async () => {
+    const { ws } = workspace();
+    expect(ws.finished()).toBeNull();
+    await ws.execute("finish", { explanation: "Pronto", commit_message: "fix: title" });
+    expect(ws.finished()).toEqual({ explanation: "Pronto", commit_message: "fix: title" });
+  });
+});
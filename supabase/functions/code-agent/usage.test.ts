@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { createUsageRecorder } from "./usage.ts";
+import type { ServiceClient } from "../_shared/repository.ts";
+
+const PRICES = [
+  { model: "gpt-4o-mini", input_usd_per_mtok: "0.15", output_usd_per_mtok: "0.60" },
+  { model: "gpt-4o", input_usd_per_mtok: 2.5, output_usd_per_mtok: 10 },
+];
+
+// ai_prices answers with PRICES; ai_usage inserts are collected
+function fakeSupabase(insertError: unknown = null) {
+  const inserted: Record<string, unknown>[][] = [];
+  const sb = {
+    from: (table: string) => table === "ai_prices"
+      ? { select: () => ({ eq: async () => ({ data: PRICES }) }) }
+      : {
+          insert: async (rows: Record<string, unknown>[]) => {
+            inserted.push(rows);
+            return { error: insertError };
+          },
+        },
+  };
+  return { sb: sb as unknown as ServiceClient, inserted };
+}
+
+async function recorder(insertError?: unknown) {
+  const { sb, inserted } = fakeSupabase(insertError);
+  const usage = createUsageRecorder(sb, { userId: "u1", repositoryId: "r1", chatMessageId: "m1" });
+  await usage.loadPrices("openai");
+  return { usage, inserted };
+}
+
+describe("createUsageRecorder", () => {
+  it("prices each call with its own model's rates", async () => {
+    const { usage } = await recorder();
+    usage.record("openai", "gpt-4o-mini", "intent", { prompt_tokens: 1_000_000, completion_tokens: 0 });
+    usage.record("openai", "gpt-4o", "code", { prompt_tokens: 200_000, completion_tokens: 50_000 });
+    expect(usage.summary()).toEqual({ prompt_tokens: 1_200_000, completion_tokens: 50_000, cost_usd: 0.15 + 0.5 + 0.5 });
+  });
+
+  it("reports an unknown total when a model has no price, and writes the call without a cost", async () => {
+    const { usage, inserted } = await recorder();
+    usage.record("openai", "gpt-4o", "code", { prompt_tokens: 100_000, completion_tokens: 0 });
+    usage.record("openai", "gpt-5-preview", "chat", { prompt_tokens: 10, completion_tokens: 5 });
+    expect(usage.summary().cost_usd).toBeNull();
+    await usage.flush();
+    expect(inserted[0].map((r) => r.cost_usd)).toEqual([0.25, null]);
+  });
+
+  it("treats missing usage blocks as zero tokens", async () => {
+    const { usage } = await recorder();
+    usage.record("openai", "gpt-4o", "chat", undefined);
+    expect(usage.summary()).toEqual({ prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 });
+  });
+
+  it("writes each record once, linked to the message and the request", async () => {
+    const { usage, inserted } = await recorder();
+    usage.record("openai", "gpt-4o-mini", "intent", { prompt_tokens: 10, completion_tokens: 1 });
+    await usage.flush();
+    usage.record("openai", "gpt-4o", "code", { prompt_tokens: 20, completion_tokens: 2 });
+    await usage.flush();
+    await usage.flush();
+
+    expect(inserted.map((rows) => rows.map((r) => r.model))).toEqual([["gpt-4o-mini"], ["gpt-4o"]]);
+    const [[first], [second]] = inserted;
+    expect(first).toMatchObject({ user_id: "u1", repository_id: "r1", chat_message_id: "m1", role: "intent" });
+    expect(first.request_id).toBe(second.request_id);
+  });
+
+  it("never throws when the insert fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { usage } = await recorder({ message: "permission denied" });
+    usage.record("openai", "gpt-4o", "code", { prompt_tokens: 1, completion_tokens: 1 });
+    await expect(usage.flush()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+// Collects the token usage of every model call made while answering one
+// message, priced from ai_prices. code-agent writes it to ai_usage after each
+// call, so the monthly budget of a concurrent request already sees it.
+import type { ModelRole, TokenUsage } from "../_shared/providers.ts";
+import type { ServiceClient } from "../_shared/repository.ts";
+
+interface UsageRecord {
+  provider: string;
+  model: string;
+  role: ModelRole;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface UsageSummary {
+  prompt_tokens: number;
+  completion_tokens: number;
+  // null when at least one model has no price
+  cost_usd: number | null;
+}
+
+interface Price {
+  model: string;
+  input_usd_per_mtok: number;
+  output_usd_per_mtok: number;
+}
+
+export function createUsageRecorder(
+  sb: ServiceClient,
+  link: { userId: string; repositoryId: string; chatMessageId: string | null }
+) {
+  // Every row written for this request shares it
+  const requestId = crypto.randomUUID();
+  const records: (UsageRecord & { cost_usd: number | null })[] = [];
+  let prices: Price[] = [];
+  let flushed = 0;
+
+  return {
+    // Loads the provider's prices so each call is priced as it is recorded
+    async loadPrices(provider: string) {
+      const { data } = await sb
+        .from("ai_prices")
+        .select("model, input_usd_per_mtok, output_usd_per_mtok")
+        .eq("provider", provider);
+      prices = data || [];
+    },
+
+    record(provider: string, model: string, role: ModelRole, usage: Partial<TokenUsage> | undefined) {
+      const prompt_tokens = usage?.prompt_tokens || 0;
+      const completion_tokens = usage?.completion_tokens || 0;
+      const price = prices.find((p) => p.model === model);
+      records.push({
+        provider,
+        model,
+        role,
+        prompt_tokens,
+        completion_tokens,
+        cost_usd: price
+          ? (prompt_tokens * Number(price.input_usd_per_mtok) + completion_tokens * Number(price.output_usd_per_mtok)) / 1_000_000
+          : null,
+      });
+    },
+
+    // Writes whatever was recorded since the last flush. Never throws: losing
+    // a usage row must not fail the user's request.
+    async flush() {
+      const pending = records.slice(flushed);
+      flushed = records.length;
+      if (pending.length === 0) return;
+
+      try {
+        const rows = pending.map((r) => ({
+          user_id: link.userId,
+          repository_id: link.repositoryId,
+          chat_message_id: link.chatMessageId,
+          request_id: requestId,
+          ...r,
+        }));
+        const { error } = await sb.from("ai_usage").insert(rows);
+        if (error) console.error("ai_usage insert error:", error);
+      } catch (e) {
+        console.error("ai_usage error:", e);
+      }
+    },
+
+    summary(): UsageSummary {
+      const known = records.every((r) => r.cost_usd !== null);
+      return {
+        prompt_tokens: records.reduce((sum, r) => sum + r.prompt_tokens, 0),
+        completion_tokens: records.reduce((sum, r) => sum + r.completion_tokens, 0),
+        cost_usd: known ? records.reduce((sum, r) => sum + (r.cost_usd || 0), 0) : null,
+      };
+    },
+  };
+}
+
+export type UsageRecorder = ReturnType<typeof createUsageRecorder>;
@@ -0,0 +1,33 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { loadRepository } from "../_shared/repository.ts";
+import { getCommitDiff } from "../_shared/github.ts";
+
+// Serves a commit's per-file patches to the diff viewer, so the repository
+// token stays on the server.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const body = await req.json();
+    const { commit_sha } = body;
+    if (!commit_sha) throw { status: 400, message: "Missing required parameters" };
+    if (!/^[0-9a-f]{7,40}$/i.test(commit_sha)) throw { status: 400, message: "Invalid commit sha" };
+
+    const { repo } = await loadRepository(req, body);
+    const { repo_owner, repo_name, github_token } = repo;
+
+    const diff = await getCommitDiff(repo_owner, repo_name, commit_sha, github_token);
+    return new Response(
+      JSON.stringify(diff),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (e) {
+    console.error("commit-diff error:", e);
+    const { status, message } = e as { status?: number; message?: string };
+    return new Response(
+      JSON.stringify({ error: message || "Unknown error" }),
+      { status: status || 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { loadRepository } from "../_shared/repository.ts";
+import { getDefaultBranch, getCommit, replayCommits, type ConflictError } from "../_shared/github.ts";
+
+// Re-applies a reverted commit: a single new commit on top of the branch that
+// brings its changes back, refused if later commits touched the same files.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const body = await req.json();
+    const { commit_sha } = body;
+    if (!commit_sha) throw { status: 400, message: "Missing required parameters" };
+
+    const { repo } = await loadRepository(req, body);
+    const { repo_owner, repo_name, github_token } = repo;
+
+    // Commits made in pull-request mode live on their own branch
+    const branch: string = body.branch || await getDefaultBranch(repo_owner, repo_name, github_token);
+
+    const commit = await getCommit(repo_owner, repo_name, commit_sha, github_token);
+    const parent = commit.parents?.[0]?.sha;
+    if (!parent) throw { status: 422, message: "Não dá para reaplicar o primeiro commit do repositório." };
+
+    const subject = String(commit.message || "").split("\n")[0];
+    const message = `Reapply "${subject}"\n\nThis reapplies commit ${commit_sha}.`;
+    try {
+      const result = await replayCommits(
+        repo_owner, repo_name, branch, [{ from: parent, to: commit_sha }], message, github_token
+      );
+      return new Response(
+        JSON.stringify({
+          success: true,
+          commit_sha: result.commitSha,
+          commit_message: message.split("\n")[0],
+          files_changed: result.filesChanged,
+          skipped: result.skipped,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (err) {
+      if ((err as ConflictError).code !== "conflict") throw err;
+      const { conflicts } = err as ConflictError;
+      return new Response(
+        JSON.stringify({
+          error: `Não dá para refazer ${commit_sha.slice(0, 7)}: ${conflicts.length === 1 ? "um arquivo foi alterado" : `${conflicts.length} arquivos foram alterados`} depois do revert.`,
+          conflicts,
+        }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  } catch (e) {
+    console.error("redo-commit error:", e);
+    const { status, message } = e as { status?: number; message?: string };
+    return new Response(
+      JSON.stringify({ error: message || "Unknown error" }),
+      { status: status || 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,113 +1,67 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { loadRepository } from "../_shared/repository.ts";
+import { getDefaultBranch, getCommit, replayCommits, type ConflictError } from "../_shared/github.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-};
-
+// Reverts commits like `git revert`: a single new commit on top of the branch
+// that undoes their changes, refused if later commits touched the same files.
+// `commit_shas` (newest first) reverts several at once; `commit_sha` just one.
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
-    const { commit_sha, repo_owner, repo_name, github_token } = await req.json();
-
-    if (!commit_sha || !repo_owner || !repo_name || !github_token) {
-      throw new Error("Missing required parameters");
-    }
+    const body = await req.json();
+    const shas: string[] = body.commit_shas || (body.commit_sha ? [body.commit_sha] : []);
+    if (shas.length === 0) throw { status: 400, message: "Missing required parameters" };
 
-    // Get the commit details
-    const commitRes = await fetch(
-      `https://api.github.com/repos/${repo_owner}/${repo_name}/commits/${commit_sha}`,
-      { headers: { Authorization: `Bearer ${github_token}`, Accept: "application/vnd.github.v3+json" } }
-    );
-    if (!commitRes.ok) throw new Error("Could not fetch commit details");
-    const commitData = await commitRes.json();
+    const { repo } = await loadRepository(req, body);
+    const { repo_owner, repo_name, github_token } = repo;
 
-    // Get parent commit SHA
-    const parentSha = commitData.parents?.[0]?.sha;
-    if (!parentSha) throw new Error("Cannot revert: no parent commit found");
+    // Commits made in pull-request mode live on their own branch
+    const branch: string = body.branch || await getDefaultBranch(repo_owner, repo_name, github_token);
 
-    // For each file changed in the commit, restore from parent
-    const filesReverted: string[] = [];
+    const commits = await Promise.all(shas.map(async (sha) => {
+      const commit = await getCommit(repo_owner, repo_name, sha, github_token);
+      const parent = commit.parents?.[0]?.sha;
+      if (!parent) throw { status: 422, message: "Não dá para reverter o primeiro commit do repositório." };
+      return { sha, parent, subject: String(commit.message || "").split("\n")[0] };
+    }));
 
-    for (const file of commitData.files || []) {
-      try {
-        if (file.status === "added") {
-          // Delete file that was added
-          const currentRes = await fetch(
-            `https://api.github.com/repos/${repo_owner}/${repo_name}/contents/${file.filename}`,
-            { headers: { Authorization: `Bearer ${github_token}`, Accept: "application/vnd.github.v3+json" } }
-          );
-          if (currentRes.ok) {
-            const currentData = await currentRes.json();
-            await fetch(
-              `https://api.github.com/repos/${repo_owner}/${repo_name}/contents/${file.filename}`,
-              {
-                method: "DELETE",
-                headers: {
-                  Authorization: `Bearer ${github_token}`,
-                  Accept: "application/vnd.github.v3+json",
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                  message: `revert: undo ${file.filename}`,
-                  sha: currentData.sha,
-                }),
-              }
-            );
-            filesReverted.push(file.filename);
-          }
-        } else {
-          // Restore file content from parent commit
-          const parentFileRes = await fetch(
-            `https://api.github.com/repos/${repo_owner}/${repo_name}/contents/${file.filename}?ref=${parentSha}`,
-            { headers: { Authorization: `Bearer ${github_token}`, Accept: "application/vnd.github.v3+json" } }
-          );
-          
-          if (parentFileRes.ok) {
-            const parentFileData = await parentFileRes.json();
-            // Get current file SHA
-            const currentRes = await fetch(
-              `https://api.github.com/repos/${repo_owner}/${repo_name}/contents/${file.filename}`,
-              { headers: { Authorization: `Bearer ${github_token}`, Accept: "application/vnd.github.v3+json" } }
-            );
-            if (currentRes.ok) {
-              const currentData = await currentRes.json();
-              await fetch(
-                `https://api.github.com/repos/${repo_owner}/${repo_name}/contents/${file.filename}`,
-                {
-                  method: "PUT",
-                  headers: {
-                    Authorization: `Bearer ${github_token}`,
-                    Accept: "application/vnd.github.v3+json",
-                    "Content-Type": "application/json",
-                  },
-                  body: JSON.stringify({
-                    message: `revert: undo changes to ${file.filename}`,
-                    content: parentFileData.content.replace(/\n/g, ""),
-                    sha: currentData.sha,
-                  }),
-                }
-              );
-              filesReverted.push(file.filename);
-            }
-          }
-        }
-      } catch (fileErr) {
-        console.error(`Error reverting ${file.filename}:`, fileErr);
-      }
+    const message = commits.length === 1
+      ? `Revert "${commits[0].subject}"\n\nThis reverts commit ${commits[0].sha}.`
+      : `Revert ${commits.length} commits\n\nThis reverts commits:\n${commits.map((c) => `- ${c.sha} ${c.subject}`).join("\n")}`;
+    try {
+      const result = await replayCommits(
+        repo_owner, repo_name, branch, commits.map((c) => ({ from: c.sha, to: c.parent })), message, github_token
+      );
+      return new Response(
+        JSON.stringify({
+          success: true,
+          commit_sha: result.commitSha,
+          commit_message: message.split("\n")[0],
+          files_reverted: result.changed,
+          files_changed: result.filesChanged,
+          skipped: result.skipped,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (err) {
+      if ((err as ConflictError).code !== "conflict") throw err;
+      const { conflicts } = err as ConflictError;
+      return new Response(
+        JSON.stringify({
+          error: `Não dá para desfazer ${shas.length === 1 ? shas[0].slice(0, 7) : `${shas.length} commits`}: ${conflicts.length === 1 ? "um arquivo foi alterado" : `${conflicts.length} arquivos foram alterados`} por commits posteriores.`,
+          conflicts,
+        }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
-
-    return new Response(
-      JSON.stringify({ success: true, files_reverted: filesReverted }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
   } catch (e) {
     console.error("undo-commit error:", e);
+    const { status, message } = e as { status?: number; message?: string };
     return new Response(
-      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ error: message || "Unknown error" }),
+      { status: status || 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,9 @@
+-- Per-repository commit mode: push straight to the default branch or open a pull request
+ALTER TABLE public.repositories
+  ADD COLUMN commit_mode TEXT NOT NULL DEFAULT 'direct'
+  CHECK (commit_mode IN ('direct', 'pull_request'));
+
+-- Pull request opened for an agent commit, when the repository uses PR mode
+ALTER TABLE public.agent_commits
+  ADD COLUMN branch TEXT,
+  ADD COLUMN pull_request_url TEXT;
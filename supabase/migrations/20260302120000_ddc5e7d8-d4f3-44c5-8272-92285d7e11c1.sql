@@ -0,0 +1,33 @@
+-- Review-first mode: the agent proposes changes instead of committing them
+ALTER TABLE public.repositories
+  ADD COLUMN review_first BOOLEAN NOT NULL DEFAULT false;
+
+-- Changesets waiting for the user's approval
+CREATE TABLE public.pending_changesets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  repository_id UUID NOT NULL REFERENCES public.repositories(id) ON DELETE CASCADE,
+  branch TEXT NOT NULL,
+  commit_message TEXT NOT NULL,
+  explanation TEXT,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'discarded')),
+  commit_sha TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pending_changesets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own changesets"
+  ON public.pending_changesets FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update their own changesets"
+  ON public.pending_changesets FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pending_changesets_updated_at
+  BEFORE UPDATE ON public.pending_changesets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Assistant messages that proposed a changeset
+ALTER TABLE public.chat_messages
+  ADD COLUMN changeset_id UUID REFERENCES public.pending_changesets(id) ON DELETE SET NULL;
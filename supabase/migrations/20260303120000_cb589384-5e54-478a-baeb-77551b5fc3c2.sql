@@ -0,0 +1,3 @@
+-- Tool calls the agent made while answering, shown under the assistant message
+ALTER TABLE public.chat_messages
+  ADD COLUMN tool_calls JSONB;
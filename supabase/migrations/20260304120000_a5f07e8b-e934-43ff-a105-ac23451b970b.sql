@@ -0,0 +1,9 @@
+-- GitHub tokens are only read by the edge functions (service role). RLS can't
+-- hide a single column, so drop the table-wide SELECT grant and give clients
+-- every column except github_token. Columns added later need their own grant.
+REVOKE SELECT ON public.repositories FROM anon, authenticated;
+
+GRANT SELECT (
+  id, user_id, repo_url, repo_owner, repo_name, is_active,
+  commit_mode, review_first, created_at, updated_at
+) ON public.repositories TO authenticated;
@@ -0,0 +1,114 @@
+-- Secrets (AI API keys, GitHub tokens) are stored encrypted with pgcrypto.
+-- The key lives in Supabase Vault and only the service role (edge functions)
+-- can decrypt. Clients write plaintext once; a trigger encrypts it and keeps
+-- a masked hint such as "sk-…a1b2" for the UI.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'jtc_secrets_key') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'base64'),
+      'jtc_secrets_key',
+      'Chave de criptografia das chaves de IA e tokens do GitHub'
+    );
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.secrets_key()
+RETURNS TEXT AS $$
+  SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'jtc_secrets_key';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Encrypted values are prefixed with "enc:" so plaintext is never encrypted twice.
+-- VOLATILE: every call makes a new ciphertext (random salt), so the planner
+-- must not reuse one result for several rows.
+CREATE OR REPLACE FUNCTION public.encrypt_secret(plain TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN plain IS NULL OR plain = '' THEN NULL
+    WHEN plain LIKE 'enc:%' THEN plain
+    ELSE 'enc:' || encode(extensions.pgp_sym_encrypt(plain, public.secrets_key()), 'base64')
+  END;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.decrypt_secret(secret TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN secret IS NULL THEN NULL
+    WHEN secret LIKE 'enc:%' THEN extensions.pgp_sym_decrypt(decode(substr(secret, 5), 'base64'), public.secrets_key())
+    ELSE secret
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.mask_secret(plain TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN plain IS NULL OR plain = '' THEN NULL
+    WHEN length(plain) <= 10 THEN '…' || right(plain, 2)
+    ELSE left(plain, 3) || '…' || right(plain, 4)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.secrets_key() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.encrypt_secret(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decrypt_secret(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decrypt_secret(TEXT) TO service_role;
+
+-- Masked hints shown in the UI
+ALTER TABLE public.profiles ADD COLUMN ai_api_key_hint TEXT;
+ALTER TABLE public.repositories ADD COLUMN github_token_hint TEXT;
+
+-- Encrypt existing rows
+UPDATE public.profiles
+  SET ai_api_key_hint = public.mask_secret(ai_api_key),
+      ai_api_key = public.encrypt_secret(ai_api_key)
+  WHERE ai_api_key IS NOT NULL AND ai_api_key NOT LIKE 'enc:%';
+
+UPDATE public.repositories
+  SET github_token_hint = public.mask_secret(github_token),
+      github_token = public.encrypt_secret(github_token)
+  WHERE github_token NOT LIKE 'enc:%';
+
+-- Encrypt on every write from now on
+CREATE OR REPLACE FUNCTION public.encrypt_profile_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.ai_api_key IS DISTINCT FROM OLD.ai_api_key THEN
+    IF NEW.ai_api_key IS NULL OR NEW.ai_api_key NOT LIKE 'enc:%' THEN
+      NEW.ai_api_key_hint := public.mask_secret(NEW.ai_api_key);
+      NEW.ai_api_key := public.encrypt_secret(NEW.ai_api_key);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER encrypt_profiles_secrets
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.encrypt_profile_secrets();
+
+CREATE OR REPLACE FUNCTION public.encrypt_repository_secrets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.github_token IS DISTINCT FROM OLD.github_token THEN
+    IF NEW.github_token NOT LIKE 'enc:%' THEN
+      NEW.github_token_hint := public.mask_secret(NEW.github_token);
+      NEW.github_token := public.encrypt_secret(NEW.github_token);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER encrypt_repositories_secrets
+  BEFORE INSERT OR UPDATE ON public.repositories
+  FOR EACH ROW EXECUTE FUNCTION public.encrypt_repository_secrets();
+
+-- Clients can read the hints but never the encrypted values
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, display_name, avatar_url, ai_provider, ai_api_key_hint, created_at, updated_at
+) ON public.profiles TO authenticated;
+
+GRANT SELECT (github_token_hint) ON public.repositories TO authenticated;
@@ -0,0 +1,4 @@
+-- Base URL for providers that need one (Azure resource, OpenAI-compatible servers)
+ALTER TABLE public.profiles ADD COLUMN ai_base_url TEXT;
+
+GRANT SELECT (ai_base_url) ON public.profiles TO authenticated;
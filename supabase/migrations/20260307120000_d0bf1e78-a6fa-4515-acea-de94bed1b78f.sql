@@ -0,0 +1,5 @@
+-- Per-role model overrides: {"intent"|"chat"|"code": {model, temperature, max_tokens}}
+ALTER TABLE public.profiles
+  ADD COLUMN ai_model_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+GRANT SELECT (ai_model_settings) ON public.profiles TO authenticated;
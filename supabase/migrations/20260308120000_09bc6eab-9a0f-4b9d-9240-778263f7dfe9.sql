@@ -0,0 +1,71 @@
+-- Price per million tokens, in USD, for the models in the provider registry.
+-- Models without a row (Azure deployments, local servers) are tracked without cost.
+CREATE TABLE public.ai_prices (
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_usd_per_mtok NUMERIC(10, 4) NOT NULL,
+  output_usd_per_mtok NUMERIC(10, 4) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, model)
+);
+
+ALTER TABLE public.ai_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view prices"
+  ON public.ai_prices FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.ai_prices (provider, model, input_usd_per_mtok, output_usd_per_mtok) VALUES
+  ('gemini', 'gemini-2.0-flash-lite', 0.075, 0.30),
+  ('gemini', 'gemini-2.0-flash', 0.10, 0.40),
+  ('gemini', 'gemini-2.5-flash', 0.30, 2.50),
+  ('gemini', 'gemini-2.5-pro', 1.25, 10.00),
+  ('openai', 'gpt-4o-mini', 0.15, 0.60),
+  ('openai', 'gpt-4o', 2.50, 10.00),
+  ('openai', 'gpt-4.1-mini', 0.40, 1.60),
+  ('openai', 'gpt-4.1', 2.00, 8.00),
+  ('anthropic', 'claude-3-5-haiku-latest', 0.80, 4.00),
+  ('anthropic', 'claude-sonnet-4-0', 3.00, 15.00),
+  ('anthropic', 'claude-opus-4-0', 15.00, 75.00),
+  ('openrouter', 'openai/gpt-4o-mini', 0.15, 0.60),
+  ('openrouter', 'openai/gpt-4o', 2.50, 10.00),
+  ('openrouter', 'anthropic/claude-sonnet-4', 3.00, 15.00),
+  ('openrouter', 'google/gemini-2.5-flash', 0.30, 2.50);
+
+-- One row per model call made by code-agent. `chat_message_id` is the user
+-- message that started the request.
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  repository_id UUID REFERENCES public.repositories(id) ON DELETE SET NULL,
+  chat_message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  role TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage"
+  ON public.ai_usage FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX ai_usage_user_created_idx ON public.ai_usage (user_id, created_at);
+CREATE INDEX ai_usage_chat_message_idx ON public.ai_usage (chat_message_id);
+
+-- Monthly totals per model for the profile page
+CREATE VIEW public.ai_usage_monthly
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('month', created_at)::date AS month,
+  provider,
+  model,
+  count(*)::integer AS calls,
+  sum(prompt_tokens)::integer AS prompt_tokens,
+  sum(completion_tokens)::integer AS completion_tokens,
+  sum(cost_usd) AS cost_usd
+FROM public.ai_usage
+GROUP BY user_id, date_trunc('month', created_at)::date, provider, model;
@@ -0,0 +1,60 @@
+-- Spending guardrails. NULL means no limit.
+ALTER TABLE public.profiles
+  ADD COLUMN monthly_budget_usd NUMERIC(10, 2),
+  ADD COLUMN monthly_token_limit BIGINT,
+  ADD COLUMN hourly_request_limit INTEGER;
+
+GRANT SELECT (monthly_budget_usd, monthly_token_limit, hourly_request_limit) ON public.profiles TO authenticated;
+
+-- Admin-level defaults copied into new profiles by handle_new_user. A single
+-- row, editable only with the service role (no policies).
+CREATE TABLE public.app_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  default_monthly_budget_usd NUMERIC(10, 2),
+  default_monthly_token_limit BIGINT,
+  default_hourly_request_limit INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.app_settings (default_monthly_budget_usd, default_monthly_token_limit, default_hourly_request_limit)
+VALUES (5.00, NULL, 60);
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name, monthly_budget_usd, monthly_token_limit, hourly_request_limit)
+  SELECT
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'display_name', split_part(NEW.email, '@', 1)),
+    s.default_monthly_budget_usd,
+    s.default_monthly_token_limit,
+    s.default_hourly_request_limit
+  FROM (SELECT true AS id) AS one
+  LEFT JOIN public.app_settings s ON s.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Groups the model calls of one code-agent request, for the hourly cap
+ALTER TABLE public.ai_usage ADD COLUMN request_id UUID;
+
+-- Totals since a point in time, for the budget check in code-agent
+CREATE OR REPLACE FUNCTION public.usage_since(p_user_id UUID, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (tokens BIGINT, cost_usd NUMERIC, requests BIGINT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT
+    COALESCE(sum(prompt_tokens + completion_tokens), 0)::bigint,
+    COALESCE(sum(cost_usd), 0),
+    count(DISTINCT request_id)
+  FROM public.ai_usage
+  WHERE user_id = p_user_id AND created_at >= p_since;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.usage_since(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.usage_since(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,3 @@
+-- Instruction files (AGENTS.md, CONTRIBUTING.md...) code-agent put in the prompt
+ALTER TABLE public.chat_messages
+  ADD COLUMN instruction_files TEXT[];
@@ -0,0 +1,7 @@
+-- Glob policy for the paths the agent may write, per repository. Deny wins;
+-- an empty allow list allows every path that isn't denied.
+ALTER TABLE public.repositories
+  ADD COLUMN allow_globs TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN deny_globs TEXT[] NOT NULL DEFAULT '{.github/workflows/**,**/*.lock}';
+
+GRANT SELECT (allow_globs, deny_globs) ON public.repositories TO authenticated;
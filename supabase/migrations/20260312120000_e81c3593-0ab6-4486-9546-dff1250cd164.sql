@@ -0,0 +1,9 @@
+-- Reverts and re-applies made from the history are agent commits too, linked
+-- to the rows they act on so the history can show the whole chain:
+-- change -> (reverted_by) revert, and redo -> (source_commit) change.
+-- A single revert can undo several commits, so the link lives on the reverted rows.
+ALTER TABLE public.agent_commits
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'change'
+    CHECK (kind IN ('change', 'revert', 'redo')),
+  ADD COLUMN source_commit_id UUID REFERENCES public.agent_commits(id) ON DELETE SET NULL,
+  ADD COLUMN reverted_by_id UUID REFERENCES public.agent_commits(id) ON DELETE SET NULL;
@@ -0,0 +1,19 @@
+-- The assistant message that reported an agent commit, so each chat bubble
+-- can show its commit and undo it
+ALTER TABLE public.agent_commits
+  ADD COLUMN chat_message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX agent_commits_chat_message_idx ON public.agent_commits (chat_message_id);
+
+-- Older commits: the message whose summary names the short SHA ("Commit: `abc1234`")
+UPDATE public.agent_commits ac
+SET chat_message_id = (
+  SELECT cm.id FROM public.chat_messages cm
+  WHERE cm.repository_id = ac.repository_id
+    AND cm.user_id = ac.user_id
+    AND cm.role = 'assistant'
+    AND cm.content LIKE '%Commit: `' || left(ac.commit_sha, 7) || '`%'
+  ORDER BY cm.created_at
+  LIMIT 1
+)
+WHERE ac.chat_message_id IS NULL AND ac.kind = 'change';
@@ -0,0 +1,6 @@
+-- apply-changeset claims a changeset ('pending' -> 'applying') before
+-- publishing it, so two concurrent applies can't both commit
+ALTER TABLE public.pending_changesets
+  DROP CONSTRAINT pending_changesets_status_check;
+ALTER TABLE public.pending_changesets
+  ADD CONSTRAINT pending_changesets_status_check CHECK (status IN ('pending', 'applying', 'applied', 'discarded'));
@@ -0,0 +1,54 @@
+-- Admin caps per account. Unlike the limits in profiles, which users set (and
+-- clear) themselves, these can only be changed with the service role: users
+-- may read their own row but there are no write policies. code-agent enforces
+-- the lower of the two. NULL means no cap.
+CREATE TABLE public.account_limits (
+  user_id UUID NOT NULL PRIMARY KEY,
+  monthly_budget_usd NUMERIC(10, 2) CHECK (monthly_budget_usd >= 0),
+  monthly_token_limit BIGINT CHECK (monthly_token_limit >= 0),
+  hourly_request_limit INTEGER CHECK (hourly_request_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own account limits"
+  ON public.account_limits FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_account_limits_updated_at
+  BEFORE UPDATE ON public.account_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Accounts created since the admin defaults were introduced got them copied
+-- into their profile; move them here so they can no longer be lifted from
+-- the profile page. Older accounts stay uncapped.
+INSERT INTO public.account_limits (user_id, monthly_budget_usd, monthly_token_limit, hourly_request_limit)
+SELECT p.user_id, s.default_monthly_budget_usd, s.default_monthly_token_limit, s.default_hourly_request_limit
+FROM public.profiles p
+JOIN public.app_settings s ON s.id
+WHERE p.monthly_budget_usd IS NOT DISTINCT FROM s.default_monthly_budget_usd
+  AND p.monthly_token_limit IS NOT DISTINCT FROM s.default_monthly_token_limit
+  AND p.hourly_request_limit IS NOT DISTINCT FROM s.default_hourly_request_limit
+  AND (p.monthly_budget_usd IS NOT NULL OR p.monthly_token_limit IS NOT NULL OR p.hourly_request_limit IS NOT NULL);
+
+UPDATE public.profiles p
+SET monthly_budget_usd = NULL, monthly_token_limit = NULL, hourly_request_limit = NULL
+FROM public.account_limits a
+WHERE a.user_id = p.user_id;
+
+-- New accounts: the admin defaults become the account's caps; the profile
+-- limits start empty
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'display_name', split_part(NEW.email, '@', 1)));
+
+  INSERT INTO public.account_limits (user_id, monthly_budget_usd, monthly_token_limit, hourly_request_limit)
+  SELECT NEW.id, s.default_monthly_budget_usd, s.default_monthly_token_limit, s.default_hourly_request_limit
+  FROM public.app_settings s
+  WHERE s.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
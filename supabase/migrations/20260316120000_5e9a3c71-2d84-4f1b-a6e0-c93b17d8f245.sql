@@ -0,0 +1,41 @@
+-- One row per code-agent request, written when the request starts. ai_usage
+-- rows only exist once a model call finishes, so counting those let any
+-- number of concurrent requests past the hourly cap.
+CREATE TABLE public.ai_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written only by start_ai_request (no policies)
+ALTER TABLE public.ai_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX ai_requests_user_created_idx ON public.ai_requests (user_id, created_at);
+
+-- Counts the user's requests in the last hour and, under `p_hourly_limit`
+-- (NULL means no limit), records a new one. Requests of the same user take
+-- turns on an advisory lock, so two of them can't both see the last free slot.
+CREATE OR REPLACE FUNCTION public.start_ai_request(p_user_id UUID, p_hourly_limit INTEGER DEFAULT NULL)
+RETURNS TABLE (allowed BOOLEAN, requests BIGINT)
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  recent BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('ai_requests:' || p_user_id::text));
+
+  SELECT count(*) INTO recent
+  FROM public.ai_requests r
+  WHERE r.user_id = p_user_id AND r.created_at > now() - interval '1 hour';
+
+  IF p_hourly_limit IS NOT NULL AND recent >= p_hourly_limit THEN
+    RETURN QUERY SELECT false, recent;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.ai_requests (user_id) VALUES (p_user_id);
+  RETURN QUERY SELECT true, recent + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_ai_request(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_ai_request(UUID, INTEGER) TO service_role;